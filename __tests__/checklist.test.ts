@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { OnboardingChecklist, readChecklist } from "../src/checklist";
+import { setLocale } from "../src/i18n";
+import { clearTours, registerTours } from "../src/orchestrator";
+import {
+	createMemoryStorage,
+	readChecklistState,
+	writeProgress,
+} from "../src/storage";
+import { flush, waitFor } from "./helpers";
+
+let storage = createMemoryStorage();
+
+beforeEach(() => {
+	clearTours();
+	storage = createMemoryStorage();
+	const el = document.createElement("div");
+	el.id = "target";
+	document.body.appendChild(el);
+	registerTours([
+		{
+			id: "profile",
+			title: { en: "Complete your profile", de: "Profil vervollständigen" },
+			steps: [{ selector: "#target", title: "Profile" }],
+			options: { persistProgress: true, storage, stepWaitMs: 0 },
+		},
+		{
+			id: "billing",
+			steps: [{ selector: "#target", title: "Billing" }],
+			options: { persistProgress: true, storage, tourId: "billing-v2" },
+		},
+	]);
+});
+
+afterEach(() => {
+	setLocale("en");
+	clearTours();
+	document.body.innerHTML = "";
+});
+
+describe("readChecklist", () => {
+	it("resolves labels and completion from the registry", async () => {
+		await writeProgress("billing-v2", { completed: true }, storage);
+		const state = await readChecklist([
+			"profile",
+			"billing",
+			{ id: "missing", label: "Invite a teammate" },
+		]);
+		expect(state.items.map((i) => i.label)).toEqual([
+			"Complete your profile",
+			"billing",
+			"Invite a teammate",
+		]);
+		expect(state.items.map((i) => i.completed)).toEqual([false, true, false]);
+		expect(state.items[2].registered).toBe(false);
+		expect(state).toMatchObject({ completed: 1, total: 3, percent: 33 });
+		const de = await readChecklist(["profile"], "de-AT");
+		expect(de.items[0].label).toBe("Profil vervollständigen");
+	});
+});
+
+describe("OnboardingChecklist", () => {
+	it("renders items and ticks a tour off live when it finishes", async () => {
+		const checklist = new OnboardingChecklist({
+			tours: ["profile", "billing"],
+		});
+		const changes: number[] = [];
+		checklist.on("change", (s) => changes.push(s.percent));
+		await checklist.mount();
+		const root = document.querySelector(".wt-checklist") as HTMLElement;
+		expect(root.classList.contains("wt-checklist-floating")).toBe(true);
+		expect(root.textContent).toContain("0% complete");
+		const rows = root.querySelectorAll<HTMLElement>(".wt-checklist-item");
+		expect([...rows].map((r) => r.dataset.tourId)).toEqual([
+			"profile",
+			"billing",
+		]);
+		let launched: string | undefined;
+		checklist.on("launch", ({ id }) => {
+			launched = id;
+		});
+		rows[0].querySelector<HTMLButtonElement>(".wt-checklist-launch")?.click();
+		expect(launched).toBe("profile");
+		expect(
+			await waitFor(() => !!document.querySelector(".wt-tooltip .wt-next")),
+		).toBe(true);
+		document.querySelector<HTMLButtonElement>(".wt-tooltip .wt-next")?.click();
+		expect(
+			await waitFor(
+				() =>
+					!!document.querySelector(
+						'.wt-checklist-done[data-tour-id="profile"]',
+					),
+			),
+		).toBe(true);
+		expect(checklist.getState()?.percent).toBe(50);
+		expect(changes).toEqual([0, 50]);
+		expect(document.querySelector(".wt-checklist")?.textContent).toContain(
+			"50% complete",
+		);
+		checklist.destroy();
+		expect(document.querySelector(".wt-checklist")).toBeNull();
+	});
+
+	it("persists minimized and dismissed state", async () => {
+		const ui = createMemoryStorage();
+		const host = document.createElement("section");
+		document.body.appendChild(host);
+		const checklist = new OnboardingChecklist({
+			tours: ["profile"],
+			id: "main",
+			storage: ui,
+			container: host,
+		});
+		await checklist.mount();
+		const root = host.querySelector(".wt-checklist") as HTMLElement;
+		expect(root.classList.contains("wt-checklist-floating")).toBe(false);
+		root.querySelector<HTMLButtonElement>(".wt-checklist-toggle")?.click();
+		expect(root.classList.contains("wt-checklist-minimized")).toBe(true);
+		expect(root.querySelector(".wt-checklist-items")).toBeNull();
+		expect(await readChecklistState("main", ui)).toEqual({
+			minimized: true,
+			dismissed: false,
+		});
+		root.querySelector<HTMLButtonElement>(".wt-checklist-close")?.click();
+		expect(host.querySelector(".wt-checklist")).toBeNull();
+		await flush();
+		const again = new OnboardingChecklist({
+			tours: ["profile"],
+			id: "main",
+			storage: ui,
+			container: host,
+		});
+		await again.mount();
+		expect(host.querySelector(".wt-checklist")).toBeNull();
+	});
+});
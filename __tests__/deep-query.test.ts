@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	querySelectorDeep,
+	toDeepSelector,
+	viewportRect,
+} from "../src/deep-query";
+import { Walkthrough } from "../src/walkthrough";
+
+function rect(left: number, top: number, width = 20, height = 10) {
+	return () =>
+		({
+			left,
+			top,
+			width,
+			height,
+			right: left + width,
+			bottom: top + height,
+		}) as DOMRect;
+}
+
+function mountWidget() {
+	const host = document.createElement("my-widget");
+	const shadow = host.attachShadow({ mode: "open" });
+	shadow.innerHTML = `<button class="inner">A</button><button class="inner">B</button>`;
+	document.body.appendChild(host);
+	return shadow;
+}
+
+function mountFrame() {
+	const frame = document.createElement("iframe");
+	frame.id = "editor";
+	document.body.appendChild(frame);
+	const doc = frame.contentDocument as Document;
+	doc.body.innerHTML = `<button id="bold">B</button>`;
+	return { frame, bold: doc.getElementById("bold") as HTMLElement };
+}
+
+afterEach(() => {
+	document.body.innerHTML = "";
+});
+
+describe("querySelectorDeep", () => {
+	it("pierces open shadow roots", () => {
+		const shadow = mountWidget();
+		expect(querySelectorDeep("my-widget >>> .inner")).toEqual([
+			shadow.querySelector(".inner"),
+		]);
+		expect(querySelectorDeep("my-widget >>> .inner", true)).toHaveLength(2);
+		expect(querySelectorDeep("my-widget .inner")).toEqual([]);
+	});
+
+	it("descends into same-origin iframes", () => {
+		const { bold } = mountFrame();
+		expect(querySelectorDeep("#editor >>> #bold")).toEqual([bold]);
+		expect(toDeepSelector({ frame: "#editor", selector: "#bold" })).toBe(
+			"#editor >>> #bold",
+		);
+	});
+});
+
+describe("viewportRect", () => {
+	it("offsets iframe content by the frame position", () => {
+		const { frame, bold } = mountFrame();
+		frame.getBoundingClientRect = rect(100, 50, 400, 300);
+		bold.getBoundingClientRect = rect(10, 5);
+		expect(viewportRect(bold)).toMatchObject({ left: 110, top: 55 });
+	});
+});
+
+describe("walkthrough with scoped targets", () => {
+	it("highlights shadow and iframe targets in top document coordinates", async () => {
+		const shadow = mountWidget();
+		const { frame, bold } = mountFrame();
+		frame.getBoundingClientRect = rect(100, 50, 400, 300);
+		bold.getBoundingClientRect = rect(10, 5);
+		const onEnter = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ target: { host: "my-widget", selector: ".inner" }, title: "Shadow" },
+				{
+					target: { frame: "#editor", selector: "#bold" },
+					padding: 0,
+					title: "Frame",
+				},
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		wt.on("step:enter", ({ element }) => onEnter(element));
+		await wt.start();
+		await wt.next();
+		expect(onEnter.mock.calls.map((c) => c[0])).toEqual([
+			shadow.querySelector(".inner"),
+			bold,
+		]);
+		const ring = document.querySelector<HTMLElement>(".wt-ring");
+		expect(ring?.style.left).toBe("110px");
+		expect(ring?.style.top).toBe("55px");
+		wt.destroy();
+	});
+});
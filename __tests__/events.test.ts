@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TypedEmitter } from "../src/events";
+import { Walkthrough } from "../src/walkthrough";
+import { addTarget, flush } from "./helpers";
+
+beforeEach(() => {
+	document.body.innerHTML = "";
+});
+
+afterEach(() => {
+	for (const n of document.querySelectorAll(".wt-root")) n.remove();
+});
+
+describe("TypedEmitter", () => {
+	it("supports multiple handlers, off and isolates throwing handlers", () => {
+		const onError = vi.fn();
+		const em = new TypedEmitter<{ ping: number }>(onError);
+		const a = vi.fn();
+		const b = vi.fn(() => {
+			throw new Error("boom");
+		});
+		const c = vi.fn();
+		em.on("ping", a);
+		em.on("ping", b);
+		const offC = em.on("ping", c);
+		em.emit("ping", 1);
+		expect(a).toHaveBeenCalledWith(1);
+		expect(c).toHaveBeenCalledWith(1);
+		expect(onError).toHaveBeenCalledTimes(1);
+		offC();
+		em.off("ping", a);
+		em.emit("ping", 2);
+		expect(a).toHaveBeenCalledTimes(1);
+		expect(c).toHaveBeenCalledTimes(1);
+		expect(b).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe("Walkthrough events", () => {
+	it("emits lifecycle events to several subscribers", async () => {
+		const a = addTarget("a");
+		addTarget("b");
+		const wt = new Walkthrough(
+			[
+				{ selector: "#a", title: "A" },
+				{ selector: "#missing", title: "Missing", waitMs: 0 },
+				{ selector: "#b", title: "B" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		const log: string[] = [];
+		const analytics = vi.fn();
+		wt.on("start", ({ index }) => log.push(`start:${index}`));
+		wt.on("step:enter", ({ index, element }) => {
+			log.push(`enter:${index}`);
+			if (index === 0) expect(element).toBe(a);
+		});
+		wt.on("step:enter", analytics);
+		wt.on("step:leave", ({ index }) => log.push(`leave:${index}`));
+		wt.on("step:missing", ({ index, required }) =>
+			log.push(`missing:${index}:${required}`),
+		);
+		wt.on("finish", ({ index }) => log.push(`finish:${index}`));
+		await wt.start();
+		await wt.go(1);
+		await flush();
+		wt.finish();
+		expect(log).toEqual([
+			"start:0",
+			"enter:0",
+			"leave:0",
+			"missing:1:false",
+			"enter:2",
+			"finish:2",
+		]);
+		expect(analytics).toHaveBeenCalledTimes(2);
+	});
+
+	it("emits skip and destroy, and reports hook / handler errors", async () => {
+		addTarget("a");
+		const hookError = new Error("hook");
+		const wt = new Walkthrough(
+			[
+				{
+					selector: "#a",
+					title: "A",
+					beforeStep: () => {
+						throw hookError;
+					},
+				},
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		const errors: string[] = [];
+		wt.on("error", ({ source, error }) => {
+			errors.push(source);
+			if (source === "beforeStep") expect(error).toBe(hookError);
+		});
+		wt.on("step:enter", () => {
+			throw new Error("listener");
+		});
+		const onSkip = vi.fn();
+		const onDestroy = vi.fn();
+		wt.on("skip", onSkip);
+		wt.on("destroy", onDestroy);
+		await wt.start();
+		// Hook failure does not prevent the step from rendering
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("A");
+		expect(errors).toEqual(["beforeStep", "event:step:enter"]);
+		wt.skip("user-skip");
+		expect(onSkip).toHaveBeenCalledWith({ index: 0, reason: "user-skip" });
+		// Destroy after skip is a no-op (nothing active)
+		wt.destroy();
+		expect(onDestroy).not.toHaveBeenCalled();
+		await wt.start();
+		wt.destroy();
+		expect(onDestroy).toHaveBeenCalledTimes(1);
+	});
+});
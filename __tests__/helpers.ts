@@ -0,0 +1,61 @@
+/** DOM helpers shared by the test suites. */
+
+/** Layout box reported by a stubbed target (jsdom does no layout). */
+export interface TargetRect {
+	top: number;
+	left: number;
+	width: number;
+	height: number;
+}
+
+/** Let pending timers and promise callbacks run. */
+export const flush = () => new Promise((r) => setTimeout(r, 0));
+
+/** Make `el` report `rect` from `getBoundingClientRect()`. */
+export function stubRect<T extends Element>(el: T, rect: TargetRect): T {
+	el.getBoundingClientRect = () =>
+		({
+			...rect,
+			x: rect.left,
+			y: rect.top,
+			right: rect.left + rect.width,
+			bottom: rect.top + rect.height,
+		}) as DOMRect;
+	return el;
+}
+
+/** Append a `<div>` with the given id to the body (with a stubbed box when `rect` is set). */
+export function addTarget(id: string, rect?: TargetRect): HTMLDivElement {
+	const el = document.createElement("div");
+	el.id = id;
+	if (rect) stubRect(el, rect);
+	document.body.appendChild(el);
+	return el;
+}
+
+/** Append one target per id. */
+export function addTargets(...ids: string[]): HTMLDivElement[] {
+	return ids.map((id) => addTarget(id));
+}
+
+/** Heading of the visible tooltip. */
+export const tooltipTitle = () =>
+	document.querySelector(".wt-tooltip h3")?.textContent;
+
+/** Content container of the visible tooltip. */
+export const tooltipContent = () =>
+	document.querySelector(".wt-tooltip .wt-content");
+
+/** Poll `fn` until it returns true or `timeout` ms pass; resolves with its last result. */
+export async function waitFor(
+	fn: () => boolean,
+	timeout = 300,
+	interval = 10,
+): Promise<boolean> {
+	const start = Date.now();
+	while (Date.now() - start < timeout) {
+		if (fn()) return true;
+		await new Promise((r) => setTimeout(r, interval));
+	}
+	return fn();
+}
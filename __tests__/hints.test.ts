@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HintsLayer } from "../src/hints";
+import { createMemoryStorage } from "../src/storage";
+import { Walkthrough } from "../src/walkthrough";
+import { addTarget, flush } from "./helpers";
+
+const rect = { top: 100, left: 40, width: 120, height: 30 };
+
+afterEach(() => {
+	document.body.innerHTML = "";
+});
+
+describe("HintsLayer", () => {
+	it("renders icons and bubbles, toggling the whole layer", async () => {
+		addTarget("a", rect);
+		addTarget("b", rect);
+		const layer = new HintsLayer([
+			{
+				id: "a",
+				target: "#a",
+				title: "A",
+				content: "<b>bold</b><img src=x onerror=alert(1)>",
+			},
+			{ id: "b", target: "#b", content: "Always", display: "bubble" },
+		]);
+		await layer.show();
+		const icon = document.querySelector<HTMLButtonElement>(
+			'.wt-hint-icon[data-hint-id="a"]',
+		);
+		expect(icon?.style.left).toBe("151px");
+		const bubbleA = document.querySelector<HTMLElement>(
+			'.wt-hint[data-hint-id="a"]',
+		);
+		const bubbleB = document.querySelector<HTMLElement>(
+			'.wt-hint[data-hint-id="b"]',
+		);
+		expect(bubbleA?.hidden).toBe(true);
+		expect(bubbleB?.hidden).toBe(false);
+		expect(bubbleB?.classList.contains("wt-tooltip")).toBe(true);
+
+		const onOpen = vi.fn();
+		layer.on("hint:open", onOpen);
+		icon?.click();
+		const opened = document.querySelector<HTMLElement>(
+			'.wt-hint[data-hint-id="a"]',
+		);
+		expect(opened?.hidden).toBe(false);
+		expect(opened?.querySelector("img")?.hasAttribute("onerror")).toBe(false);
+		expect(onOpen).toHaveBeenCalledWith(expect.objectContaining({ id: "a" }));
+
+		expect(await layer.toggle()).toBe(false);
+		expect(document.querySelector(".wt-hints")).toBeNull();
+		expect(await layer.toggle()).toBe(true);
+		expect(document.querySelectorAll(".wt-hint").length).toBe(2);
+		layer.destroy();
+	});
+
+	it("persists dismissals per hint id", async () => {
+		addTarget("a", rect);
+		addTarget("b", rect);
+		const storage = createMemoryStorage();
+		const hints = [
+			{ id: "a", target: "#a", content: "A" },
+			{ id: "b", target: "#b", content: "B", display: "bubble" as const },
+		];
+		const layer = new HintsLayer(hints, { id: "page", storage });
+		await layer.show();
+		document
+			.querySelector<HTMLButtonElement>('[data-hint-id="b"] .wt-hint-dismiss')
+			?.click();
+		await flush();
+		expect(document.querySelector('[data-hint-id="b"]')).toBeNull();
+		expect(storage.getItem("__walkthrough_hints:page")).toBe('["b"]');
+		layer.destroy();
+
+		const again = new HintsLayer(hints, { id: "page", storage });
+		await again.show();
+		expect(again.isDismissed("b")).toBe(true);
+		expect(document.querySelector('[data-hint-id="b"]')).toBeNull();
+		expect(document.querySelector('[data-hint-id="a"]')).toBeTruthy();
+		await again.resetDismissed();
+		expect(document.querySelector('.wt-hint[data-hint-id="b"]')).toBeTruthy();
+		expect(storage.getItem("__walkthrough_hints:page")).toBeNull();
+		again.destroy();
+	});
+
+	it("picks up targets that appear later", async () => {
+		const layer = new HintsLayer([
+			{ id: "late", target: "#late", content: "Hi" },
+		]);
+		await layer.show();
+		const icon = document.querySelector<HTMLElement>(".wt-hint-icon");
+		expect(icon?.style.display).toBe("none");
+		addTarget("late", rect);
+		await flush();
+		expect(icon?.style.display).toBe("");
+		layer.destroy();
+	});
+
+	it("coexists with an active tour and other layers without re-triggering them", async () => {
+		addTarget("a", rect);
+		addTarget("b", rect);
+		const tour = new Walkthrough([{ selector: "#a", title: "Tour" }], {
+			stepWaitMs: 0,
+			scrollIntoView: false,
+		});
+		await tour.start();
+		const first = new HintsLayer([{ id: "a", target: "#a", content: "A" }]);
+		const second = new HintsLayer([
+			{ id: "b", target: "#b", content: "B", display: "bubble" },
+		]);
+		await first.show();
+		await second.show();
+		await flush();
+		const calls = [
+			vi.spyOn(first, "reposition"),
+			vi.spyOn(second, "reposition"),
+		];
+		document.body.appendChild(document.createElement("p"));
+		await flush();
+		await flush();
+		// One page mutation: each layer repositions once, not in an endless loop
+		for (const spy of calls) expect(spy).toHaveBeenCalledTimes(1);
+		tour.destroy();
+		first.destroy();
+		second.destroy();
+	});
+});
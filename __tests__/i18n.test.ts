@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	formatLabel,
+	getLocale,
+	localize,
+	onLocaleChange,
+	registerLocale,
+	resolveLabels,
+	setLocale,
+} from "../src/i18n";
+
+afterEach(() => setLocale("en"));
+
+describe("i18n", () => {
+	it("resolves bundles with base language fallback and overrides", () => {
+		expect(resolveLabels("de").next).toBe("Weiter");
+		expect(resolveLabels("de-AT").back).toBe("Zurück");
+		// Missing keys fall back to English
+		expect(resolveLabels("de").progress).toBe("{current} / {total}");
+		expect(resolveLabels("xx").skip).toBe("Skip");
+		registerLocale("de-AT", { done: "Erledigt" });
+		expect(resolveLabels("de-AT").done).toBe("Erledigt");
+		expect(
+			resolveLabels("fr", { next: "Go" }, { next: "Continuer", skip: "Non" }),
+		).toMatchObject({ next: "Continuer", skip: "Non", back: "Retour" });
+	});
+
+	it("localizes text maps with fallback", () => {
+		const text = { en: "Hello", pt: "Olá", "pt-BR": "Oi" };
+		expect(localize("plain", "de")).toBe("plain");
+		expect(localize(text, "pt-BR")).toBe("Oi");
+		expect(localize(text, "pt-PT")).toBe("Olá");
+		expect(localize(text, "de")).toBe("Hello");
+		expect(localize({ ja: "こんにちは" }, "de")).toBe("こんにちは");
+		expect(localize(undefined)).toBeUndefined();
+	});
+
+	it("notifies locale listeners and formats templates", () => {
+		const seen: string[] = [];
+		const off = onLocaleChange((l) => seen.push(l));
+		setLocale("fr");
+		setLocale("fr");
+		off();
+		setLocale("es");
+		expect(seen).toEqual(["fr"]);
+		expect(getLocale()).toBe("es");
+		expect(
+			formatLabel("Step {current} of {total} {x}", { current: 2, total: 5 }),
+		).toBe("Step 2 of 5 {x}");
+	});
+});
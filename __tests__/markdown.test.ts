@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { renderMarkdown } from "../src/markdown";
+import { sanitizeHTML } from "../src/walkthrough";
+
+describe("renderMarkdown", () => {
+	it("renders headings, paragraphs and emphasis", () => {
+		expect(
+			renderMarkdown(
+				"# Title #\n\nSome **bold**, *em*, __strong__, _em_ and ~~old~~ text\nwrapped  \nbroken",
+			),
+		).toBe(
+			"<h1>Title</h1>\n<p>Some <strong>bold</strong>, <em>em</em>, <strong>strong</strong>, <em>em</em> and <del>old</del> text\nwrapped<br>\nbroken</p>",
+		);
+		expect(renderMarkdown("snake_case_name stays")).toBe(
+			"<p>snake_case_name stays</p>",
+		);
+	});
+
+	it("renders lists", () => {
+		expect(
+			renderMarkdown("- one\n- two\n  continued\n\n3. three\n4) four"),
+		).toBe(
+			'<ul><li>one</li><li>two continued</li></ul>\n<ol start="3"><li>three</li><li>four</li></ol>',
+		);
+		expect(renderMarkdown("* a\n1. b")).toBe(
+			"<ul><li>a</li></ul>\n<ol><li>b</li></ol>",
+		);
+	});
+
+	it("renders links, images and code", () => {
+		expect(
+			renderMarkdown(
+				'See [the *docs*](https://example.com/docs "Docs") or ![logo](https://example.com/l.png)',
+			),
+		).toBe(
+			'<p>See <a href="https://example.com/docs" title="Docs">the <em>docs</em></a> or <img src="https://example.com/l.png" alt="logo"></p>',
+		);
+		expect(renderMarkdown("[`npm i`](/install)")).toBe(
+			`<p><a href="${new URL("/install", document.baseURI).href}"><code>npm i</code></a></p>`,
+		);
+		expect(
+			renderMarkdown("Run `a *b* <c>`\n\n```ts\nconst x = 1 < 2;\n**no**\n```"),
+		).toBe(
+			'<p>Run <code>a *b* &lt;c&gt;</code></p>\n<pre><code class="language-ts">const x = 1 &lt; 2;\n**no**</code></pre>',
+		);
+		expect(renderMarkdown("\\*not em\\* and \\[not a link\\](x)")).toBe(
+			"<p>*not em* and [not a link](x)</p>",
+		);
+	});
+
+	it("escapes raw HTML and relies on the sanitizer for URLs", () => {
+		expect(renderMarkdown('<img src=x onerror="alert(1)">')).toBe(
+			"<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>",
+		);
+		const html = sanitizeHTML(renderMarkdown("[click](javascript:alert(1))"));
+		expect(html).not.toContain("javascript:");
+		expect(html).toContain("<a>click</a>");
+	});
+});
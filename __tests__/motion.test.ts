@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { afterTransition } from "../src/motion";
+import { Walkthrough } from "../src/walkthrough";
+import { addTarget } from "./helpers";
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	document.body.innerHTML = "";
+});
+
+describe("afterTransition", () => {
+	it("resolves on the element's own transitionend, or after the cap", async () => {
+		const el = addTarget("t");
+		const child = document.createElement("span");
+		el.appendChild(child);
+		let done = false;
+		const p = afterTransition(el, 10_000).then(() => {
+			done = true;
+		});
+		child.dispatchEvent(new Event("transitionend", { bubbles: true }));
+		await Promise.resolve();
+		expect(done).toBe(false);
+		el.dispatchEvent(new Event("transitionend"));
+		await p;
+		expect(done).toBe(true);
+		const start = Date.now();
+		await afterTransition(el, 10);
+		expect(Date.now() - start).toBeGreaterThanOrEqual(10);
+	});
+});
+
+describe("step transitions", () => {
+	it("plays the exit before switching steps and the entry after", async () => {
+		addTarget("m1");
+		addTarget("m2");
+		const wt = new Walkthrough(
+			[
+				{ selector: "#m1", title: "A" },
+				{ selector: "#m2", title: "B", cutout: "rect" },
+			],
+			{
+				stepWaitMs: 0,
+				scrollIntoView: false,
+				transition: "slide",
+				transitionMs: 20,
+			},
+		);
+		await wt.start();
+		const root = document.querySelector(".wt-root");
+		expect(root?.classList.contains("wt-animate-slide")).toBe(true);
+		const tip = document.querySelector<HTMLElement>(".wt-tooltip");
+		const moving = wt.next();
+		await new Promise((r) => setTimeout(r, 0));
+		expect(tip?.classList.contains("wt-leaving")).toBe(true);
+		expect(tip?.querySelector("h3")?.textContent).toBe("A");
+		await moving;
+		expect(tip?.classList.contains("wt-leaving")).toBe(false);
+		expect(tip?.classList.contains("wt-entering")).toBe(true);
+		expect(tip?.querySelector("h3")?.textContent).toBe("B");
+		await new Promise((r) => setTimeout(r, 40));
+		expect(tip?.classList.contains("wt-entering")).toBe(false);
+		// Morphable path: sharp corners are drawn with zero radius arcs
+		const mask = document.querySelector<HTMLElement>(".wt-backdrop");
+		expect(mask?.style.clipPath).toContain("A0 0");
+		wt.destroy();
+	});
+
+	it("switches instantly under prefers-reduced-motion", async () => {
+		vi.stubGlobal("matchMedia", (query: string) => ({
+			matches: query.includes("reduce"),
+			media: query,
+		}));
+		addTarget("m1");
+		addTarget("m2");
+		const wt = new Walkthrough(
+			[
+				{ selector: "#m1", title: "A" },
+				{ selector: "#m2", title: "B" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false, transition: "fade" },
+		);
+		await wt.start();
+		const tip = document.querySelector<HTMLElement>(".wt-tooltip");
+		const moving = wt.next();
+		await new Promise((r) => setTimeout(r, 0));
+		expect(tip?.classList.contains("wt-leaving")).toBe(false);
+		await moving;
+		expect(tip?.classList.contains("wt-entering")).toBe(false);
+		expect(tip?.querySelector("h3")?.textContent).toBe("B");
+		wt.destroy();
+	});
+});
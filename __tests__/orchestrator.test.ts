@@ -130,7 +130,7 @@ describe("chainAutoMatches", () => {
 });
 
 describe("manual start and progress utilities", () => {
-	it("startTourById and progress clear/reset", () => {
+	it("startTourById and progress clear/reset", async () => {
 		addTarget("d");
 		registerTour({
 			id: "manual",
@@ -142,13 +142,13 @@ describe("manual start and progress utilities", () => {
 		const inst = startTourById("manual");
 		expect(inst).toBeTruthy();
 		inst.finish();
-		expect(isTourCompleted("manual")).toBe(true);
-		clearTourProgress("manual");
-		expect(isTourCompleted("manual")).toBe(false);
+		expect(await isTourCompleted("manual")).toBe(true);
+		await clearTourProgress("manual");
+		expect(await isTourCompleted("manual")).toBe(false);
 		// mark again then bulk reset
 		inst.start();
 		inst.finish();
-		resetAllTourProgress();
-		expect(isTourCompleted("manual")).toBe(false);
+		await resetAllTourProgress();
+		expect(await isTourCompleted("manual")).toBe(false);
 	});
 });
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { computePlacement, parsePlacement } from "../src/placement";
+import { Walkthrough } from "../src/walkthrough";
+
+const viewport = { width: 1000, height: 800 };
+const tooltip = { width: 200, height: 100 };
+
+describe("computePlacement", () => {
+	it("defaults to bottom-centered with a 14px gap", () => {
+		const r = computePlacement(
+			{ top: 100, left: 400, width: 100, height: 40 },
+			tooltip,
+			viewport,
+		);
+		expect(r.placement).toBe("bottom");
+		expect(r.top).toBe(154);
+		expect(r.left).toBe(350);
+		expect(r.arrow.x).toBe(100);
+		expect(r.fits).toBe(true);
+	});
+
+	it("honours explicit side, alignment and offset", () => {
+		const target = { top: 300, left: 400, width: 100, height: 40 };
+		const right = computePlacement(target, tooltip, viewport, {
+			placement: "right-start",
+			offset: 8,
+		});
+		expect(right).toMatchObject({
+			placement: "right-start",
+			left: 508,
+			top: 300,
+		});
+		const topEnd = computePlacement(target, tooltip, viewport, {
+			placement: "top-end",
+		});
+		expect(topEnd).toMatchObject({ placement: "top-end", top: 186, left: 300 });
+	});
+
+	it("flips to the opposite side and moves the arrow with it", () => {
+		// Target near the bottom edge: preferred bottom cannot fit
+		const r = computePlacement(
+			{ top: 740, left: 20, width: 40, height: 40 },
+			tooltip,
+			viewport,
+			{ placement: "bottom" },
+		);
+		expect(r.side).toBe("top");
+		expect(r.top).toBe(740 - 14 - 100);
+		// Cross axis is shifted into the viewport, arrow still points at the target center
+		expect(r.left).toBe(4);
+		expect(r.arrow.x).toBe(36);
+	});
+
+	it("clamps into the viewport when nothing fits", () => {
+		const r = computePlacement(
+			{ top: 0, left: 0, width: 1000, height: 800 },
+			tooltip,
+			viewport,
+			{ placement: "left" },
+		);
+		expect(r.fits).toBe(false);
+		expect(r.side).toBe("left");
+		expect(r.left).toBe(4);
+	});
+
+	it("mirrors start / end and the horizontal fallback in RTL", () => {
+		const target = { top: 300, left: 400, width: 100, height: 40 };
+		const start = computePlacement(target, tooltip, viewport, {
+			placement: "bottom-start",
+			direction: "rtl",
+		});
+		expect(start).toMatchObject({ placement: "bottom-start", left: 300 });
+		const end = computePlacement(target, tooltip, viewport, {
+			placement: "top-end",
+			direction: "rtl",
+		});
+		expect(end.left).toBe(400);
+		// Too tall for top / bottom: RTL prefers the left side
+		const tall = computePlacement(
+			{ top: 0, left: 400, width: 100, height: 800 },
+			tooltip,
+			viewport,
+			{ direction: "rtl" },
+		);
+		expect(tall.side).toBe("left");
+	});
+
+	it("parses placements", () => {
+		expect(parsePlacement("auto")).toEqual({});
+		expect(parsePlacement("left-end")).toEqual({ side: "left", align: "end" });
+	});
+});
+
+describe("tooltip arrow", () => {
+	it("renders an arrow and exposes the resolved placement", async () => {
+		const el = document.createElement("div");
+		el.id = "arrow-target";
+		document.body.appendChild(el);
+		const wt = new Walkthrough(
+			[{ selector: "#arrow-target", title: "A", placement: "bottom-start" }],
+			{ arrow: true, stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		const tip = document.querySelector<HTMLElement>(".wt-tooltip");
+		expect(tip?.getAttribute("data-placement")).toBe("bottom-start");
+		const arrow = tip?.querySelector<HTMLElement>(".wt-arrow");
+		expect(arrow).toBeTruthy();
+		expect(arrow?.style.top).toBe("-5px");
+		wt.destroy();
+	});
+});
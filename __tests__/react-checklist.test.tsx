@@ -0,0 +1,71 @@
+import ReactDOM from "react-dom/client";
+import { afterEach, describe, expect, it } from "vitest";
+import { clearTours, registerTours } from "../src/orchestrator";
+import { OnboardingChecklistPanel } from "../src/react-checklist";
+import {
+	createMemoryStorage,
+	readChecklistState,
+	removeProgress,
+	writeProgress,
+} from "../src/storage";
+import { waitFor } from "./helpers";
+
+let lastRoot: ReactDOM.Root | null = null;
+
+afterEach(() => {
+	lastRoot?.unmount();
+	lastRoot = null;
+	clearTours();
+	document.body.innerHTML = "";
+});
+
+describe("OnboardingChecklistPanel", () => {
+	it("tracks completion live and persists dismissal", async () => {
+		const storage = createMemoryStorage();
+		registerTours([
+			{ id: "one", title: "First", steps: [], options: { storage } },
+			{ id: "two", title: "Second", steps: [], options: { storage } },
+		]);
+		const host = document.createElement("div");
+		document.body.appendChild(host);
+		const ui = createMemoryStorage();
+		const checklistId = `react-${Date.now()}`;
+		let dismissed = false;
+		lastRoot = ReactDOM.createRoot(host);
+		lastRoot.render(
+			<OnboardingChecklistPanel
+				id={checklistId}
+				storage={ui}
+				tours={["one", "two"]}
+				onDismiss={() => {
+					dismissed = true;
+				}}
+			/>,
+		);
+		expect(await waitFor(() => !!host.querySelector(".wt-checklist"))).toBe(
+			true,
+		);
+		expect(host.querySelectorAll(".wt-checklist-item")).toHaveLength(2);
+		expect(host.textContent).toContain("First");
+		expect(host.textContent).toContain("0% complete");
+
+		writeProgress("two", { completed: true }, storage);
+		expect(
+			await waitFor(
+				() => !!host.querySelector('.wt-checklist-done[data-tour-id="two"]'),
+			),
+		).toBe(true);
+		expect(host.textContent).toContain("50% complete");
+		removeProgress("two", storage);
+		expect(await waitFor(() => !host.querySelector(".wt-checklist-done"))).toBe(
+			true,
+		);
+
+		host.querySelector<HTMLButtonElement>(".wt-checklist-close")?.click();
+		expect(await waitFor(() => !host.querySelector(".wt-checklist"))).toBe(
+			true,
+		);
+		expect(dismissed).toBe(true);
+		expect((await readChecklistState(checklistId, ui)).dismissed).toBe(true);
+	});
+});
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	chainAutoMatches,
+	clearTours,
+	isTourCompleted,
+	registerTours,
+	startAutoMatches,
+} from "../src/orchestrator";
+import {
+	createMemoryStorage,
+	readProgress,
+	setDefaultSessionStorage,
+	setDefaultStorage,
+	type WalkthroughStorage,
+} from "../src/storage";
+import { Walkthrough, WalkthroughChain } from "../src/walkthrough";
+import { addTarget, flush } from "./helpers";
+
+/** Async wrapper around an in-memory store to exercise promise based adapters. */
+function asyncStorage(inner = createMemoryStorage()): WalkthroughStorage {
+	return {
+		getItem: async (k) => inner.getItem(k),
+		setItem: async (k, v) => inner.setItem(k, v),
+		removeItem: async (k) => inner.removeItem(k),
+	};
+}
+
+beforeEach(() => {
+	clearTours();
+	localStorage.clear();
+	sessionStorage.clear();
+	document.body.innerHTML = "";
+});
+
+afterEach(() => {
+	setDefaultStorage(null);
+	setDefaultSessionStorage(null);
+	for (const n of document.querySelectorAll(".wt-root")) n.remove();
+});
+
+describe("storage adapters", () => {
+	it("persists through a per-instance async adapter without touching localStorage", async () => {
+		addTarget("a");
+		addTarget("b");
+		const storage = asyncStorage();
+		const steps = [
+			{ selector: "#a", title: "A" },
+			{ selector: "#b", title: "B" },
+		];
+		const opts = {
+			persistProgress: true,
+			tourId: "async-tour",
+			storage,
+			stepWaitMs: 0,
+			scrollIntoView: false,
+		};
+		const wt1 = new Walkthrough(steps, opts);
+		await wt1.start();
+		await wt1.go(1);
+		await flush();
+		expect((await readProgress("async-tour", storage))?.index).toBe(1);
+		expect(localStorage.getItem("__walkthrough:async-tour")).toBeNull();
+		wt1.destroy();
+
+		const wt2 = new Walkthrough(steps, opts);
+		await wt2.start();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("B");
+		wt2.finish();
+		await flush();
+		expect(await isTourCompleted("async-tour", storage)).toBe(true);
+	});
+
+	it("uses the global default store and skips completed chain tours", async () => {
+		addTarget("x");
+		const storage = createMemoryStorage({
+			"__walkthrough:done": JSON.stringify({ index: 0, completed: true }),
+		});
+		setDefaultStorage(storage);
+		const chain = new WalkthroughChain([
+			{
+				id: "done",
+				steps: [{ selector: "#x", title: "Done" }],
+				options: { persistProgress: true, tourId: "done", stepWaitMs: 0 },
+			},
+			{
+				id: "next",
+				steps: [{ selector: "#x", title: "Next" }],
+				options: { stepWaitMs: 0, scrollIntoView: false },
+			},
+		]);
+		chain.start();
+		await flush();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("Next");
+		chain.stop();
+	});
+
+	it("routes oncePerSession flags through the session store", async () => {
+		addTarget("s");
+		const session = createMemoryStorage();
+		setDefaultSessionStorage(session);
+		registerTours([
+			{
+				id: "once",
+				match: "/s",
+				steps: [{ selector: "#s" }],
+				oncePerSession: true,
+			},
+		]);
+		expect(await startAutoMatches({ pathname: "/s" })).toEqual(["once"]);
+		expect(session.getItem("__wt_session_started:once")).toBe("1");
+		expect(sessionStorage.getItem("__wt_session_started:once")).toBeNull();
+		expect(await startAutoMatches({ pathname: "/s" })).toEqual([]);
+		const { ids } = await chainAutoMatches("/s");
+		expect(ids).toEqual([]);
+	});
+});
@@ -0,0 +1,201 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isAbortError, isTargetVisible, waitFor } from "../src/wait";
+import { Walkthrough } from "../src/walkthrough";
+import { addTarget, stubRect } from "./helpers";
+
+const later = (ms: number, fn: () => void) => setTimeout(fn, ms);
+
+const box = { top: 10, left: 10, width: 20, height: 10 };
+
+afterEach(() => {
+	document.body.innerHTML = "";
+});
+
+describe("waitFor", () => {
+	it("resolves on DOM mutation without polling", async () => {
+		later(10, () => addTarget("late"));
+		const started = Date.now();
+		const el = await waitFor(() => document.getElementById("late"), {
+			timeout: 2000,
+			interval: 5000,
+		});
+		expect(el?.id).toBe("late");
+		expect(Date.now() - started).toBeLessThan(1000);
+	});
+
+	it("resolves null on timeout and supports polling", async () => {
+		expect(await waitFor(() => null, { timeout: 20 })).toBeNull();
+		let n = 0;
+		const v = await waitFor(() => ++n >= 3 && n, {
+			strategy: "poll",
+			interval: 1,
+			timeout: 1000,
+		});
+		expect(v).toBe(3);
+	});
+
+	it("rejects immediately when aborted", async () => {
+		const ctrl = new AbortController();
+		const check = vi.fn(() => null);
+		const p = waitFor(check, {
+			signal: ctrl.signal,
+			strategy: "poll",
+			interval: 1,
+		});
+		ctrl.abort();
+		const error = await p.catch((e) => e);
+		expect(isAbortError(error)).toBe(true);
+		const calls = check.mock.calls.length;
+		await new Promise((r) => setTimeout(r, 20));
+		expect(check).toHaveBeenCalledTimes(calls);
+	});
+});
+
+describe("Walkthrough target waiting", () => {
+	it("renders a step as soon as its target is inserted", async () => {
+		const wt = new Walkthrough([{ selector: "#late", title: "Late" }], {
+			stepWaitMs: 2000,
+			stepPollIntervalMs: 5000,
+			scrollIntoView: false,
+		});
+		later(10, () => addTarget("late"));
+		await wt.start();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("Late");
+		wt.destroy();
+	});
+
+	it("cancels a pending wait on destroy and never renders a stale step", async () => {
+		addTarget("a");
+		const onEnter = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ selector: "#a", title: "A" },
+				{ selector: "#never", title: "Never" },
+				{ selector: "#c", title: "C" },
+			],
+			{ stepWaitMs: 5000, scrollIntoView: false },
+		);
+		wt.on("step:enter", ({ index }) => onEnter(index));
+		await wt.start();
+		// Navigation towards #never is superseded by goTo
+		const pending = wt.next();
+		addTarget("c");
+		await wt.go(2);
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("C");
+		addTarget("never");
+		await pending;
+		expect(onEnter.mock.calls.map((c) => c[0])).toEqual([0, 2]);
+		// A wait in flight during destroy resolves without rendering
+		document.getElementById("never")?.remove();
+		const waiting = wt.go(1);
+		await new Promise((r) => setTimeout(r, 10));
+		wt.destroy();
+		await waiting;
+		expect(onEnter).toHaveBeenCalledTimes(2);
+		expect(document.querySelector(".wt-root")).toBeNull();
+	});
+});
+
+describe("isTargetVisible", () => {
+	it("rejects zero-size, hidden, collapsed and covered elements", () => {
+		const el = addTarget("t");
+		expect(isTargetVisible(el)).toBe(false); // zero size
+		stubRect(el, box);
+		expect(isTargetVisible(el)).toBe(true);
+		el.style.visibility = "hidden";
+		expect(isTargetVisible(el)).toBe(false);
+		el.style.visibility = "";
+		document.body.style.display = "none";
+		expect(isTargetVisible(el)).toBe(false);
+		document.body.style.display = "";
+
+		const details = document.createElement("details");
+		details.innerHTML = "<summary>More</summary><p>Body</p>";
+		document.body.appendChild(details);
+		const summary = stubRect(
+			details.querySelector("summary") as HTMLElement,
+			box,
+		);
+		const body = stubRect(details.querySelector("p") as HTMLElement, box);
+		expect(isTargetVisible(summary)).toBe(true);
+		expect(isTargetVisible(body)).toBe(false);
+		details.open = true;
+		expect(isTargetVisible(body)).toBe(true);
+
+		const modal = addTarget("modal");
+		const doc = document as Document & {
+			elementsFromPoint?: (x: number, y: number) => Element[];
+		};
+		const original = doc.elementsFromPoint;
+		doc.elementsFromPoint = () => [modal, el];
+		try {
+			expect(isTargetVisible(el)).toBe(false);
+		} finally {
+			doc.elementsFromPoint = original;
+		}
+	});
+});
+
+describe("waitFor target states", () => {
+	it("waits until a present but hidden target becomes visible", async () => {
+		const el = addTarget("panel", box);
+		el.style.display = "none";
+		const onEnter = vi.fn();
+		const wt = new Walkthrough([{ selector: "#panel", title: "Panel" }], {
+			stepWaitMs: 2000,
+			scrollIntoView: false,
+			waitFor: "visible",
+		});
+		wt.on("step:enter", onEnter);
+		later(20, () => {
+			el.style.display = "";
+		});
+		const started = wt.start();
+		await new Promise((r) => setTimeout(r, 5));
+		expect(onEnter).not.toHaveBeenCalled();
+		await started;
+		expect(onEnter).toHaveBeenCalledTimes(1);
+		wt.destroy();
+	});
+
+	it("waits for a moving target to settle with `stable`", async () => {
+		const el = addTarget("drawer");
+		let left = 0;
+		el.getBoundingClientRect = () =>
+			({ left, top: 0, width: 20, height: 10 }) as DOMRect;
+		const timer = setInterval(() => {
+			if (left < 100) left += 20;
+		}, 2);
+		const wt = new Walkthrough(
+			[{ selector: "#drawer", title: "Drawer", padding: 0, waitFor: "stable" }],
+			{ stepWaitMs: 2000, scrollIntoView: false, cutout: "rect" },
+		);
+		await wt.start();
+		clearInterval(timer);
+		expect(document.querySelector<HTMLElement>(".wt-ring")?.style.left).toBe(
+			"100px",
+		);
+		wt.destroy();
+	});
+	it("treats a target that never settles as missing", async () => {
+		const el = addTarget("spinner");
+		let left = 0;
+		el.getBoundingClientRect = () =>
+			({ left: left++, top: 0, width: 20, height: 10 }) as DOMRect;
+		const onEnter = vi.fn();
+		const onMissing = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ selector: "#spinner", title: "Spinner", waitFor: "stable" },
+				{ title: "Done" },
+			],
+			{ stepWaitMs: 100, scrollIntoView: false },
+		);
+		wt.on("step:enter", ({ index }) => onEnter(index));
+		wt.on("step:missing", ({ index }) => onMissing(index));
+		await wt.start();
+		expect(onMissing).toHaveBeenCalledWith(0);
+		expect(onEnter.mock.calls).toEqual([[1]]);
+		wt.destroy();
+	});
+});
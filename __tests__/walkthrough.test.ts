@@ -1,5 +1,17 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { startWalkthrough, Walkthrough } from "../src/walkthrough";
+import { setLocale } from "../src/i18n";
+import {
+	startWalkthrough,
+	Walkthrough,
+	type WalkthroughStep,
+} from "../src/walkthrough";
+import {
+	addTarget,
+	addTargets,
+	flush,
+	tooltipContent,
+	tooltipTitle,
+} from "./helpers";
 
 function cleanupDom() {
 	document
@@ -116,6 +128,25 @@ describe("Walkthrough basic behavior", () => {
 		wt.finish();
 	});
 
+	it("restarting skips a missing first step forwards again", async () => {
+		addTarget("present");
+		const onFinish = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ selector: "#missing", title: "Missing", waitMs: 0 },
+				{ selector: "#present", title: "Present" },
+			],
+			{ onFinish, stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		wt.finish();
+		expect(onFinish).toHaveBeenCalledTimes(1);
+		await wt.start();
+		expect(tooltipTitle()).toBe("Present");
+		expect(onFinish).toHaveBeenCalledTimes(1);
+		wt.destroy();
+	});
+
 	it("required missing element causes skip with reason", async () => {
 		const onSkip = vi.fn();
 		const wt = new Walkthrough(
@@ -129,7 +160,6 @@ describe("Walkthrough basic behavior", () => {
 	});
 
 	it("keyboard navigation works (next, prev, finish, esc)", async () => {
-		const flush = () => new Promise((r) => setTimeout(r, 0));
 		const a = document.createElement("div");
 		a.id = "a";
 		const b = document.createElement("div");
@@ -180,5 +210,1222 @@ describe("startWalkthrough convenience", () => {
 			scrollIntoView: false,
 		});
 		expect(inst).toBeInstanceOf(Walkthrough);
+		inst.destroy();
+	});
+});
+
+describe("branching flows", () => {
+	it("skips steps whose when predicate is false (sync or async)", async () => {
+		addTargets("a", "b", "c");
+		const wt = new Walkthrough(
+			[
+				{ selector: "#a", title: "A" },
+				{ selector: "#b", title: "B", when: async () => false },
+				{ selector: "#c", title: "C", when: () => true },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		await wt.next();
+		expect(tooltipTitle()).toBe("C");
+		await wt.prev();
+		expect(tooltipTitle()).toBe("A");
+		wt.destroy();
+	});
+
+	it("follows next ids / resolvers and renders Done only at a real end", async () => {
+		addTargets("a", "b", "c");
+		const role = { admin: false };
+		const wt = new Walkthrough(
+			[
+				{
+					id: "intro",
+					selector: "#a",
+					title: "Intro",
+					next: ({ api }) => {
+						expect(api).toBe(wt);
+						return role.admin ? "admin" : "viewer";
+					},
+				},
+				{ id: "admin", selector: "#b", title: "Admin", next: "end" },
+				{ id: "viewer", selector: "#c", title: "Viewer", next: "intro" },
+				{ id: "end", selector: "#a", title: "End" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		await wt.next();
+		expect(tooltipTitle()).toBe("Viewer");
+		// a step with `next` is never the last one
+		expect(
+			document.querySelector(".wt-nav button:last-child")?.textContent,
+		).toBe("Next");
+		role.admin = true;
+		await wt.next();
+		await wt.next();
+		expect(tooltipTitle()).toBe("Admin");
+		await wt.next();
+		expect(tooltipTitle()).toBe("End");
+		expect(
+			document.querySelector(".wt-nav button:last-child")?.textContent,
+		).toBe("Done");
+		wt.destroy();
+	});
+
+	it("renders choice buttons that jump to branches", async () => {
+		addTargets("a", "b", "c");
+		const wt = new Walkthrough(
+			[
+				{
+					selector: "#a",
+					title: "Pick",
+					choices: [
+						{ label: "Editing", next: "edit" },
+						{ label: "Sharing", next: () => "share" },
+					],
+				},
+				{ id: "edit", selector: "#b", title: "Edit" },
+				{ id: "share", selector: "#c", title: "Share" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		const buttons = document.querySelectorAll<HTMLButtonElement>(
+			".wt-choices .wt-choice",
+		);
+		expect(Array.from(buttons).map((b) => b.textContent)).toEqual([
+			"Editing",
+			"Sharing",
+		]);
+		// Next is replaced by the choices
+		const nav = Array.from(document.querySelectorAll(".wt-nav button")).map(
+			(b) => b.textContent,
+		);
+		expect(nav).toEqual(["Skip"]);
+		buttons[1].click();
+		await flush();
+		expect(tooltipTitle()).toBe("Share");
+		wt.destroy();
+	});
+});
+
+describe("step id navigation and history", () => {
+	it("prev returns to the step actually seen after a missing optional step", async () => {
+		addTargets("a", "c");
+		const wt = new Walkthrough(
+			[
+				{ selector: "#a", title: "A" },
+				{ selector: "#missing", title: "B", waitMs: 0 },
+				{ selector: "#c", title: "C" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		await wt.next();
+		expect(tooltipTitle()).toBe("C");
+		expect(wt.getHistory().map((h) => h.index)).toEqual([0, 2]);
+		await wt.prev();
+		expect(tooltipTitle()).toBe("A");
+		expect(wt.getHistory().map((h) => h.index)).toEqual([0]);
+		wt.destroy();
+	});
+
+	it("Back on the first step keeps the tour open", async () => {
+		addTargets("a", "b");
+		const onFinish = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ selector: "#a", title: "A" },
+				{ selector: "#b", title: "B" },
+			],
+			{
+				persistProgress: true,
+				tourId: "back-first",
+				onFinish,
+				stepWaitMs: 0,
+				scrollIntoView: false,
+			},
+		);
+		await wt.start();
+		await wt.prev();
+		document.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowLeft" }));
+		await flush();
+		expect(tooltipTitle()).toBe("A");
+		expect(onFinish).not.toHaveBeenCalled();
+		const stored = JSON.parse(
+			localStorage.getItem("__walkthrough:back-first") ?? "{}",
+		);
+		expect(stored.completed).toBeFalsy();
+		wt.destroy();
+	});
+
+	it("Back to a step whose target disappeared stays on the current step", async () => {
+		addTargets("a", "b");
+		const onFinish = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ selector: "#a", title: "A", waitMs: 0 },
+				{ selector: "#b", title: "B" },
+			],
+			{ onFinish, stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		await wt.next();
+		document.getElementById("a")?.remove();
+		await wt.prev();
+		expect(tooltipTitle()).toBe("B");
+		expect(onFinish).not.toHaveBeenCalled();
+		expect(wt.getHistory().map((h) => h.index)).toEqual([0, 1]);
+		await wt.next();
+		expect(onFinish).toHaveBeenCalledTimes(1);
+	});
+
+	it("goTo jumps by id and Back unwinds the visited path", async () => {
+		addTargets("a", "b", "c");
+		const onError = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ id: "one", selector: "#a", title: "One" },
+				{ id: "two", selector: "#b", title: "Two" },
+				{ id: "three", selector: "#c", title: "Three" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		wt.on("error", onError);
+		await wt.start();
+		await wt.goTo("three");
+		await wt.goTo("two");
+		expect(wt.getHistory().map((h) => h.step.id)).toEqual([
+			"one",
+			"three",
+			"two",
+		]);
+		await wt.prev();
+		expect(tooltipTitle()).toBe("Three");
+		await wt.goTo("nope");
+		expect(tooltipTitle()).toBe("Three");
+		expect(onError).toHaveBeenCalledTimes(1);
+		wt.destroy();
+	});
+
+	it("persists history so Back works after resuming", async () => {
+		addTargets("a", "b", "c");
+		const steps = [
+			{ id: "a", selector: "#a", title: "A" },
+			{ id: "b", selector: "#b", title: "B" },
+			{ id: "c", selector: "#c", title: "C" },
+		];
+		const opts = {
+			persistProgress: true,
+			tourId: "history-resume",
+			stepWaitMs: 0,
+			scrollIntoView: false,
+		};
+		const wt1 = new Walkthrough(steps, opts);
+		await wt1.start();
+		await wt1.goTo("c");
+		wt1.destroy();
+		const wt2 = new Walkthrough(steps, opts);
+		await wt2.start();
+		expect(tooltipTitle()).toBe("C");
+		await wt2.prev();
+		expect(tooltipTitle()).toBe("A");
+		wt2.destroy();
+	});
+});
+
+describe("completion promise", () => {
+	it("run() resolves with finished status and visited steps", async () => {
+		addTarget("a");
+		addTarget("b");
+		const wt = new Walkthrough(
+			[
+				{ selector: "#a", title: "A" },
+				{ selector: "#b", title: "B" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		const result = wt.run();
+		await new Promise((r) => setTimeout(r, 0));
+		await wt.next();
+		await wt.next();
+		const r = await result;
+		expect(r.status).toBe("finished");
+		expect(r.lastIndex).toBe(1);
+		expect(r.visited.map((v) => v.index)).toEqual([0, 1]);
+	});
+
+	it("done resolves skipped / destroyed and renews per run", async () => {
+		addTarget("a");
+		const inst = startWalkthrough([{ selector: "#a", title: "A" }], {
+			stepWaitMs: 0,
+			scrollIntoView: false,
+		});
+		const first = inst.done;
+		inst.skip("user-skip");
+		expect(await first).toMatchObject({
+			status: "skipped",
+			reason: "user-skip",
+		});
+		await inst.start();
+		expect(inst.done).not.toBe(first);
+		inst.destroy();
+		expect((await inst.done).status).toBe("destroyed");
+	});
+
+	it("reports lastIndex -1 when the run ends before a step is shown", async () => {
+		addTarget("a");
+		const wt = new Walkthrough(
+			[
+				{ selector: "#a", title: "A" },
+				{ selector: "#late", title: "Late", waitMs: 50 },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		await wt.next();
+		expect((await wt.done).lastIndex).toBe(0);
+		document.getElementById("a")?.remove();
+		const result = wt.run(1);
+		await flush();
+		wt.skip("user-skip");
+		expect((await result).lastIndex).toBe(-1);
+	});
+});
+
+describe("targetless centered steps", () => {
+	it("renders a centered tooltip over a full backdrop (also for customTooltip)", async () => {
+		const el = document.createElement("div");
+		el.id = "t";
+		document.body.appendChild(el);
+		const onEnter = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ title: "Welcome", content: "Let's go" },
+				{ selector: "#t", title: "Target" },
+				{ title: "Summary" },
+			],
+			{
+				stepWaitMs: 0,
+				scrollIntoView: false,
+				customTooltip: ({ step, defaultNav }) => {
+					const div = document.createElement("div");
+					div.className = "custom";
+					div.textContent = step.title ?? "";
+					div.appendChild(defaultNav());
+					return div;
+				},
+			},
+		);
+		wt.on("step:enter", onEnter);
+		await wt.start();
+		const tooltip = document.querySelector<HTMLElement>(".wt-tooltip");
+		const ring = document.querySelector<HTMLElement>(".wt-ring");
+		const backdrop = document.querySelector<HTMLElement>(".wt-backdrop");
+		expect(tooltip?.classList.contains("wt-centered")).toBe(true);
+		expect(tooltip?.querySelector(".custom")?.textContent).toContain("Welcome");
+		expect(ring?.style.display).toBe("none");
+		expect(backdrop?.style.clipPath).toBe("none");
+		expect(onEnter.mock.calls[0][0].element).toBeNull();
+		await wt.next();
+		expect(tooltip?.classList.contains("wt-centered")).toBe(false);
+		expect(ring?.style.display).toBe("");
+		await wt.next();
+		expect(tooltip?.classList.contains("wt-centered")).toBe(true);
+		wt.destroy();
+	});
+});
+
+describe("multi-element steps", () => {
+	const at = (left: number, top: number) => ({
+		left,
+		top,
+		width: 20,
+		height: 10,
+	});
+
+	it("highlights the union of several selectors and anchors to the chosen element", async () => {
+		addTarget("btn", at(10, 10));
+		const panel = addTarget("panel", at(100, 50));
+		const onEnter = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{
+					selector: ["#btn", "#panel"],
+					anchor: "#panel",
+					padding: 0,
+					title: "Group",
+				},
+			],
+			{ stepWaitMs: 0, scrollIntoView: false, cutout: "rect" },
+		);
+		wt.on("step:enter", onEnter);
+		await wt.start();
+		const ring = document.querySelector<HTMLElement>(".wt-ring");
+		expect(ring?.style.left).toBe("10px");
+		expect(ring?.style.width).toBe("110px");
+		expect(ring?.style.height).toBe("50px");
+		expect(onEnter.mock.calls[0][0].element).toBe(panel);
+		expect(onEnter.mock.calls[0][0].elements).toHaveLength(2);
+		wt.destroy();
+	});
+
+	it("renders separate cutouts and rings for querySelectorAll matches", async () => {
+		addTarget("h1", at(0, 0)).className = "col";
+		addTarget("h2", at(50, 0)).className = "col";
+		addTarget("h3", at(100, 0)).className = "col";
+		const wt = new Walkthrough(
+			[
+				{
+					selector: ".col",
+					selectAll: true,
+					highlight: "separate",
+					padding: 0,
+				},
+				{ selector: "#h1", title: "Single" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false, cutout: "rect" },
+		);
+		await wt.start();
+		expect(document.querySelectorAll(".wt-ring")).toHaveLength(3);
+		const clip =
+			document.querySelector<HTMLElement>(".wt-backdrop")?.style.clipPath;
+		expect(clip).toContain("M50 0H70V10H50Z");
+		await wt.next();
+		expect(document.querySelectorAll(".wt-ring")).toHaveLength(1);
+		wt.destroy();
+	});
+});
+
+describe("non-selector targets", () => {
+	it("accepts Element, ref and resolver targets", async () => {
+		const el = document.createElement("div");
+		const refEl = document.createElement("div");
+		document.body.append(el, refEl);
+		const ref = { current: refEl };
+		const onEnter = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ target: el, title: "Element" },
+				{ target: ref, title: "Ref" },
+				{ target: () => document.querySelector(".late"), title: "Resolver" },
+			],
+			{ stepWaitMs: 500, stepPollIntervalMs: 5, scrollIntoView: false },
+		);
+		wt.on("step:enter", ({ element }) => onEnter(element));
+		await wt.start();
+		await wt.next();
+		// Resolver is polled until the element shows up
+		setTimeout(() => {
+			const late = document.createElement("div");
+			late.className = "late";
+			document.body.appendChild(late);
+		}, 20);
+		await wt.next();
+		expect(onEnter.mock.calls.map((c) => c[0])).toEqual([
+			el,
+			refEl,
+			document.querySelector(".late"),
+		]);
+		wt.destroy();
+	});
+
+	it("treats detached elements and throwing resolvers as missing", async () => {
+		const detached = document.createElement("div");
+		const onMissing = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ target: detached, title: "Detached" },
+				{
+					target: () => {
+						throw new Error("nope");
+					},
+					title: "Throws",
+				},
+				{ title: "Done" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		wt.on("step:missing", onMissing);
+		await wt.start();
+		expect(onMissing).toHaveBeenCalledTimes(2);
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("Done");
+		wt.destroy();
+	});
+
+	it("only leaves steps that entered", async () => {
+		const el = document.createElement("div");
+		document.body.appendChild(el);
+		const entered: number[] = [];
+		const left: number[] = [];
+		const afterStep = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ target: el, title: "A", afterStep },
+				{ selector: "#missing", title: "Missing", afterStep },
+				{ target: el, title: "C", afterStep },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		wt.on("step:enter", ({ index }) => entered.push(index));
+		wt.on("step:leave", ({ index }) => left.push(index));
+		await wt.start();
+		await wt.next();
+		expect(entered).toEqual([0, 2]);
+		expect(left).toEqual([0]);
+		expect(afterStep).toHaveBeenCalledTimes(1);
+		wt.destroy();
+	});
+});
+
+describe("action-gated steps", () => {
+	it("locks Next until the target event fires, then advances", async () => {
+		const input = document.createElement("input");
+		input.id = "name";
+		document.body.appendChild(input);
+		const wt = new Walkthrough(
+			[
+				{ selector: "#name", title: "Type", advanceOn: "input" },
+				{ title: "Thanks" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		const next = document.querySelector<HTMLButtonElement>(".wt-next");
+		expect(next?.disabled).toBe(true);
+		expect(wt.canAdvance()).toBe(false);
+		document.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+		await flush();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("Type");
+		input.dispatchEvent(new Event("input", { bubbles: true }));
+		await flush();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe(
+			"Thanks",
+		);
+		wt.destroy();
+	});
+
+	it("supports custom window events, filters and predicates", async () => {
+		const field = document.createElement("input");
+		field.id = "field";
+		document.body.appendChild(field);
+		const wt = new Walkthrough(
+			[
+				{
+					title: "Add to cart",
+					advanceOn: {
+						event: "cart:added",
+						target: "window",
+						filter: (e) => (e as CustomEvent).detail === "sku-1",
+					},
+				},
+				{
+					selector: "#field",
+					title: "Three chars",
+					advanceOn: {
+						until: () => field.value.length >= 3,
+						advance: false,
+					},
+				},
+			],
+			{ stepWaitMs: 0, scrollIntoView: false, gatedNext: "hide" },
+		);
+		await wt.start();
+		expect(document.querySelector<HTMLButtonElement>(".wt-next")?.hidden).toBe(
+			true,
+		);
+		window.dispatchEvent(new CustomEvent("cart:added", { detail: "other" }));
+		await flush();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe(
+			"Add to cart",
+		);
+		window.dispatchEvent(new CustomEvent("cart:added", { detail: "sku-1" }));
+		await flush();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe(
+			"Three chars",
+		);
+		field.value = "ab";
+		field.dispatchEvent(new Event("input", { bubbles: true }));
+		await flush();
+		expect(wt.canAdvance()).toBe(false);
+		field.value = "abc";
+		field.dispatchEvent(new Event("input", { bubbles: true }));
+		await flush();
+		// advance: false only unlocks Next
+		expect(wt.canAdvance()).toBe(true);
+		expect(document.querySelector<HTMLButtonElement>(".wt-next")?.hidden).toBe(
+			false,
+		);
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe(
+			"Three chars",
+		);
+		wt.destroy();
+	});
+
+	it("locks choices and target / overlay clicks until the gate opens", async () => {
+		const input = addTarget("name");
+		const wt = new Walkthrough(
+			[
+				{
+					selector: "#name",
+					title: "Pick",
+					advanceOn: { event: "input", advance: false },
+					choices: [{ label: "Go", next: "done" }],
+				},
+				{ id: "done", title: "Done" },
+			],
+			{
+				stepWaitMs: 0,
+				scrollIntoView: false,
+				advanceOnTargetClick: true,
+				advanceOnOverlayClick: true,
+			},
+		);
+		await wt.start();
+		const choice = document.querySelector<HTMLButtonElement>(".wt-choice");
+		expect(choice?.disabled).toBe(true);
+		choice?.click();
+		input.click();
+		document.querySelector<HTMLElement>(".wt-top")?.click();
+		await flush();
+		expect(tooltipTitle()).toBe("Pick");
+		input.dispatchEvent(new Event("input", { bubbles: true }));
+		await flush();
+		expect(choice?.disabled).toBe(false);
+		choice?.click();
+		await flush();
+		expect(tooltipTitle()).toBe("Done");
+		wt.destroy();
+	});
+
+	it("keeps the gate armed when Back has nowhere to go", async () => {
+		const input = document.createElement("input");
+		input.id = "name";
+		document.body.appendChild(input);
+		const wt = new Walkthrough(
+			[
+				{ title: "Intro", when: () => false },
+				{
+					selector: "#name",
+					title: "Type",
+					advanceOn: { event: "input", advance: false },
+				},
+				{ title: "Thanks" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		await wt.prev();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("Type");
+		input.dispatchEvent(new Event("input", { bubbles: true }));
+		await flush();
+		expect(wt.canAdvance()).toBe(true);
+		wt.destroy();
+	});
+});
+
+describe("target interaction", () => {
+	it("lets users type into an allowed target without navigating", async () => {
+		const input = document.createElement("input");
+		input.id = "email";
+		document.body.appendChild(input);
+		const wt = new Walkthrough(
+			[{ selector: "#email", title: "Email", focus: true }, { title: "Next" }],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		await flush();
+		expect(document.activeElement).toBe(input);
+		input.dispatchEvent(
+			new KeyboardEvent("keydown", { key: "Enter", bubbles: true }),
+		);
+		input.dispatchEvent(
+			new KeyboardEvent("keydown", { key: "ArrowRight", bubbles: true }),
+		);
+		await flush();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("Email");
+		expect(
+			document.querySelector<HTMLElement>(".wt-shield")?.style.display,
+		).toBe("none");
+		wt.destroy();
+	});
+
+	it("tracks interactions and advances on every target click", async () => {
+		const btn = document.createElement("button");
+		btn.id = "btn";
+		document.body.appendChild(btn);
+		const onInteraction = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ selector: "#btn", title: "One", interaction: "allow-and-track" },
+				{ selector: "#btn", title: "Two" },
+				{ title: "Three" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false, advanceOnTargetClick: true },
+		);
+		wt.on("step:interaction", ({ type, element }) =>
+			onInteraction(type, element),
+		);
+		await wt.start();
+		btn.click();
+		await flush();
+		expect(onInteraction).toHaveBeenCalledWith("click", btn);
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("Two");
+		btn.click();
+		await flush();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("Three");
+		// Listeners of earlier steps are gone
+		expect(onInteraction).toHaveBeenCalledTimes(1);
+		wt.destroy();
+	});
+
+	it("covers blocked targets with a shield", async () => {
+		const el = document.createElement("div");
+		el.id = "blocked";
+		document.body.appendChild(el);
+		const wt = new Walkthrough(
+			[{ selector: "#blocked", title: "Look only", interaction: "block" }],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		const shield = document.querySelector<HTMLElement>(".wt-shield");
+		expect(shield?.style.display).toBe("");
+		expect(shield?.style.pointerEvents).toBe("auto");
+		wt.destroy();
+	});
+});
+
+describe("progress indicator", () => {
+	function targets(n: number) {
+		for (let i = 0; i < n; i++) addTarget(`p${i}`);
+		return Array.from({ length: n }, (_, i) => ({
+			selector: `#p${i}`,
+			title: `S${i}`,
+		}));
+	}
+
+	it("renders fraction and bar", async () => {
+		const steps = targets(4);
+		const wt = new Walkthrough(steps, {
+			stepWaitMs: 0,
+			scrollIntoView: false,
+			progress: "fraction",
+		});
+		await wt.start(1);
+		expect(document.querySelector(".wt-progress")?.textContent).toBe("2 / 4");
+		wt.destroy();
+		const bar = new Walkthrough(steps, {
+			stepWaitMs: 0,
+			scrollIntoView: false,
+			progress: "bar",
+		});
+		await bar.start();
+		const el = document.querySelector(".wt-progress-bar");
+		expect(el?.getAttribute("aria-valuenow")).toBe("1");
+		expect(
+			document.querySelector<HTMLElement>(".wt-progress-fill")?.style.width,
+		).toBe("25%");
+		bar.destroy();
+	});
+
+	it("renders dots and jumps back to visited steps", async () => {
+		const wt = new Walkthrough(targets(3), {
+			stepWaitMs: 0,
+			scrollIntoView: false,
+			progress: "dots",
+		});
+		await wt.start();
+		await wt.next();
+		await wt.next();
+		const dots = document.querySelectorAll<HTMLButtonElement>(".wt-dot");
+		expect(dots).toHaveLength(3);
+		expect(dots[2].getAttribute("aria-current")).toBe("step");
+		expect(dots[0].classList.contains("wt-dot-visited")).toBe(true);
+		dots[0].click();
+		await new Promise((r) => setTimeout(r, 0));
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("S0");
+		expect(wt.getHistory().map((h) => h.index)).toEqual([0]);
+		// Steps not visited yet cannot be reached from the dots
+		const after = document.querySelectorAll<HTMLButtonElement>(".wt-dot");
+		expect(after[1].disabled).toBe(true);
+		wt.destroy();
+	});
+});
+
+describe("labels and localization", () => {
+	afterEach(() => setLocale("en"));
+
+	const buttons = () =>
+		Array.from(document.querySelectorAll(".wt-tooltip button")).map(
+			(b) => b.textContent,
+		);
+
+	it("applies tour and step label overrides", async () => {
+		addTarget("l1");
+		addTarget("l2");
+		const wt = new Walkthrough(
+			[
+				{ selector: "#l1", title: "A" },
+				{ selector: "#l2", title: "B", labels: { done: "Finish tour" } },
+			],
+			{
+				stepWaitMs: 0,
+				scrollIntoView: false,
+				labels: { next: "Continue", skip: "Not now" },
+			},
+		);
+		await wt.start();
+		expect(buttons()).toEqual(["Not now", "Continue"]);
+		await wt.next();
+		expect(buttons()).toEqual(["Back", "Not now", "Finish tour"]);
+		wt.destroy();
+	});
+
+	it("re-renders localized text on setLocale unless the tour pins a locale", async () => {
+		addTarget("l1");
+		const steps = [
+			{
+				selector: "#l1",
+				title: { en: "Welcome", de: "Willkommen" },
+				content: { en: "Hello", de: "Hallo" },
+			},
+		];
+		const wt = new Walkthrough(steps, { stepWaitMs: 0, scrollIntoView: false });
+		await wt.start();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe(
+			"Welcome",
+		);
+		setLocale("de-CH");
+		const tip = document.querySelector(".wt-tooltip");
+		expect(tip?.querySelector("h3")?.textContent).toBe("Willkommen");
+		expect(tip?.querySelector(".wt-content")?.textContent).toBe("Hallo");
+		expect(buttons()).toContain("Fertig");
+		wt.destroy();
+
+		const pinned = new Walkthrough(steps, {
+			stepWaitMs: 0,
+			scrollIntoView: false,
+			locale: "fr",
+		});
+		await pinned.start();
+		setLocale("en");
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe(
+			"Welcome",
+		);
+		expect(buttons()).toContain("Terminer");
+		pinned.destroy();
+	});
+});
+
+describe("right-to-left", () => {
+	afterEach(() => {
+		document.documentElement.removeAttribute("dir");
+	});
+
+	it("detects dir=rtl and mirrors the arrow keys", async () => {
+		const wrap = document.createElement("div");
+		wrap.setAttribute("dir", "rtl");
+		for (const id of ["r1", "r2"]) {
+			const el = document.createElement("div");
+			el.id = id;
+			wrap.appendChild(el);
+		}
+		document.body.appendChild(wrap);
+		const wt = new Walkthrough(
+			[
+				{ selector: "#r1", title: "A" },
+				{ selector: "#r2", title: "B" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		const tip = document.querySelector<HTMLElement>(".wt-tooltip");
+		expect(tip?.dir).toBe("rtl");
+		// ArrowLeft advances, ArrowRight goes back
+		document.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowLeft" }));
+		await new Promise((r) => setTimeout(r, 0));
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("B");
+		document.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight" }));
+		await new Promise((r) => setTimeout(r, 0));
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe("A");
+		wt.destroy();
+	});
+
+	it("lets the direction option override the document", async () => {
+		document.documentElement.setAttribute("dir", "rtl");
+		const el = document.createElement("div");
+		el.id = "r3";
+		document.body.appendChild(el);
+		const wt = new Walkthrough([{ selector: "#r3", title: "A" }], {
+			stepWaitMs: 0,
+			scrollIntoView: false,
+			direction: "ltr",
+		});
+		await wt.start();
+		expect(document.querySelector<HTMLElement>(".wt-tooltip")?.dir).toBe("ltr");
+		wt.destroy();
+	});
+});
+
+describe("keyboard shortcuts", () => {
+	const press = (key: string, init: KeyboardEventInit = {}, target?: Element) =>
+		(target ?? document).dispatchEvent(
+			new KeyboardEvent("keydown", { key, bubbles: true, ...init }),
+		);
+	function setup(): WalkthroughStep[] {
+		for (const id of ["k1", "k2", "k3"]) {
+			const el = document.createElement("div");
+			el.id = id;
+			document.body.appendChild(el);
+		}
+		return [
+			{ selector: "#k1", title: "A" },
+			{ selector: "#k2", title: "B" },
+			{ selector: "#k3", title: "C" },
+		];
+	}
+
+	it("uses a custom keymap", async () => {
+		const onFinish = vi.fn();
+		const wt = new Walkthrough(setup(), {
+			stepWaitMs: 0,
+			scrollIntoView: false,
+			onFinish,
+			keymap: {
+				next: ["n", "Shift+Enter"],
+				prev: ["p"],
+				finish: ["Ctrl+Enter"],
+			},
+		});
+		await wt.start();
+		press("ArrowRight");
+		await flush();
+		expect(tooltipTitle()).toBe("A");
+		press("N");
+		await flush();
+		expect(tooltipTitle()).toBe("B");
+		press("Enter");
+		await flush();
+		expect(tooltipTitle()).toBe("B");
+		press("Enter", { shiftKey: true });
+		await flush();
+		expect(tooltipTitle()).toBe("C");
+		press("p");
+		await flush();
+		expect(tooltipTitle()).toBe("B");
+		press("Enter", { ctrlKey: true });
+		await flush();
+		expect(onFinish).toHaveBeenCalled();
+		wt.destroy();
+	});
+
+	it("ignores keys typed in editable fields unless opted in", async () => {
+		const input = document.createElement("input");
+		document.body.appendChild(input);
+		const steps = setup();
+		const wt = new Walkthrough(steps, { stepWaitMs: 0, scrollIntoView: false });
+		await wt.start();
+		press("Enter", {}, input);
+		press("Escape", {}, input);
+		await flush();
+		expect(tooltipTitle()).toBe("A");
+		wt.destroy();
+
+		const opted = new Walkthrough(steps, {
+			stepWaitMs: 0,
+			scrollIntoView: false,
+			keyboardInEditable: true,
+		});
+		await opted.start();
+		press("ArrowRight", {}, input);
+		await flush();
+		expect(tooltipTitle()).toBe("B");
+		opted.destroy();
+	});
+
+	it("disables shortcuts for steps with keyboard: false", async () => {
+		const onSkip = vi.fn();
+		const steps = setup();
+		steps[0].keyboard = false;
+		const wt = new Walkthrough(steps, {
+			stepWaitMs: 0,
+			scrollIntoView: false,
+			onSkip,
+		});
+		await wt.start();
+		press("Escape");
+		press("ArrowRight");
+		await flush();
+		expect(onSkip).not.toHaveBeenCalled();
+		expect(tooltipTitle()).toBe("A");
+		await wt.next();
+		press("Escape");
+		expect(onSkip).toHaveBeenCalled();
+	});
+});
+
+describe("beacon mode", () => {
+	const rect = { top: 100, left: 50, width: 200, height: 40 };
+
+	it("shows a hotspot without backdrop or scroll lock and opens the tooltip on click", async () => {
+		addTarget("b1", rect);
+		addTarget("b2", rect);
+		const onOpen = vi.fn();
+		const wt = new Walkthrough(
+			[
+				{ selector: "#b1", title: "First" },
+				{ selector: "#b2", title: "Second" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false, mode: "beacon" },
+		);
+		wt.on("beacon:open", onOpen);
+		await wt.start();
+		expect(document.body.style.overflow).toBe("");
+		expect(document.querySelector(".wt-overlay")).toBeNull();
+		expect(document.querySelector<HTMLElement>(".wt-ring")?.style.display).toBe(
+			"none",
+		);
+		const beacon = document.querySelector<HTMLButtonElement>(".wt-beacon");
+		const tip = document.querySelector<HTMLElement>(".wt-tooltip");
+		expect(beacon?.style.display).toBe("");
+		expect(beacon?.style.left).toBe("242px");
+		expect(tip?.hidden).toBe(true);
+		// Collapsed beacons ignore the tour's keys
+		document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+		expect(document.querySelector(".wt-root")).toBeTruthy();
+
+		beacon?.click();
+		expect(onOpen).toHaveBeenCalledWith({ index: 0, step: expect.anything() });
+		expect(tip?.hidden).toBe(false);
+		expect(tip?.querySelector("h3")?.textContent).toBe("First");
+		expect(beacon?.style.display).toBe("none");
+		// Escape collapses back to the beacon instead of skipping
+		document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+		expect(tip?.hidden).toBe(true);
+		expect(beacon?.getAttribute("aria-expanded")).toBe("false");
+
+		beacon?.click();
+		await wt.next();
+		expect(tip?.hidden).toBe(true);
+		expect(beacon?.style.display).toBe("");
+		beacon?.click();
+		expect(tip?.querySelector("h3")?.textContent).toBe("Second");
+		document.body.dispatchEvent(new Event("pointerdown", { bubbles: true }));
+		expect(tip?.hidden).toBe(true);
+		wt.destroy();
+	});
+
+	it("persists progress under the tour id", async () => {
+		addTarget("b1", rect);
+		addTarget("b2", rect);
+		const steps = [
+			{ selector: "#b1", title: "First" },
+			{ selector: "#b2", title: "Second" },
+		];
+		const opts = {
+			stepWaitMs: 0,
+			scrollIntoView: false,
+			mode: "beacon" as const,
+			tourId: "hints",
+			persistProgress: true,
+		};
+		const wt = new Walkthrough(steps, opts);
+		await wt.start();
+		await wt.next();
+		wt.destroy();
+		const resumed = new Walkthrough(steps, opts);
+		await resumed.start();
+		document.querySelector<HTMLButtonElement>(".wt-beacon")?.click();
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe(
+			"Second",
+		);
+		resumed.destroy();
+	});
+});
+
+describe("dynamic step content", () => {
+	it("evaluates title / content functions when the step is shown", async () => {
+		addTarget("d1");
+		addTarget("d2");
+		let user = "Ada";
+		const title = vi.fn(({ index }: { index: number }) => `Step ${index + 1}`);
+		const wt = new Walkthrough(
+			[
+				{ selector: "#d1", title: "Static" },
+				{
+					selector: "#d2",
+					title,
+					content: () => {
+						const strong = document.createElement("strong");
+						strong.textContent = `Hi ${user}`;
+						return strong;
+					},
+				},
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		expect(title).not.toHaveBeenCalled();
+		user = "Grace";
+		await wt.next();
+		expect(title).toHaveBeenCalledTimes(1);
+		expect(title.mock.calls[0][0]).toMatchObject({ index: 1, api: wt });
+		expect(document.querySelector(".wt-tooltip h3")?.textContent).toBe(
+			"Step 2",
+		);
+		expect(tooltipContent()?.innerHTML).toBe("<strong>Hi Grace</strong>");
+		expect(document.querySelector(".wt-live")?.textContent).toBe("Step 2");
+		wt.destroy();
+	});
+
+	it("shows a loading placeholder until async content resolves", async () => {
+		addTarget("d1");
+		addTarget("d2");
+		let resolve!: (html: string) => void;
+		const wt = new Walkthrough(
+			[
+				{
+					selector: "#d1",
+					title: "CMS",
+					content: () =>
+						new Promise<string>((r) => {
+							resolve = r;
+						}),
+				},
+				{ selector: "#d2", title: "Next" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		const tooltip = document.querySelector(".wt-tooltip");
+		expect(tooltipContent()?.classList.contains("wt-loading")).toBe(true);
+		expect(tooltipContent()?.textContent).toBe("Loading…");
+		expect(tooltip?.getAttribute("aria-busy")).toBe("true");
+		resolve('<em>Fresh</em><img src=x onerror="alert(1)">');
+		await flush();
+		expect(tooltipContent()?.classList.contains("wt-loading")).toBe(false);
+		expect(tooltipContent()?.innerHTML).toBe("<em>Fresh</em><img>");
+		expect(tooltip?.getAttribute("aria-busy")).toBe("false");
+		wt.destroy();
+	});
+
+	it("does not take focus from the target when async content settles", async () => {
+		const input = document.createElement("input");
+		input.id = "d1";
+		document.body.appendChild(input);
+		let resolve!: (html: string) => void;
+		const wt = new Walkthrough(
+			[
+				{
+					selector: "#d1",
+					title: "Type here",
+					interaction: "allow",
+					content: () =>
+						new Promise<string>((r) => {
+							resolve = r;
+						}),
+				},
+				{ title: "Done" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		await flush();
+		input.focus();
+		resolve("Ready");
+		await flush();
+		await flush();
+		expect(tooltipContent()?.textContent).toBe("Ready");
+		expect(document.activeElement).toBe(input);
+		wt.destroy();
+	});
+
+	it("ignores results that arrive after the user moved on", async () => {
+		addTarget("d1");
+		addTarget("d2");
+		let resolve!: (html: string) => void;
+		const wt = new Walkthrough(
+			[
+				{
+					selector: "#d1",
+					content: () =>
+						new Promise<string>((r) => {
+							resolve = r;
+						}),
+				},
+				{ selector: "#d2", content: "Second" },
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		await wt.start();
+		await wt.next();
+		resolve("Late");
+		await flush();
+		expect(tooltipContent()?.textContent).toBe("Second");
+		wt.destroy();
+	});
+
+	it("falls back gracefully when content fails", async () => {
+		addTarget("d1");
+		const errors: string[] = [];
+		const wt = new Walkthrough(
+			[
+				{
+					selector: "#d1",
+					title: () => {
+						throw new Error("no title");
+					},
+					content: () => Promise.reject(new Error("offline")),
+					labels: { loadError: "Tip unavailable" },
+				},
+			],
+			{ stepWaitMs: 0, scrollIntoView: false },
+		);
+		wt.on("error", ({ source }) => errors.push(source));
+		await wt.start();
+		await flush();
+		expect(document.querySelector(".wt-tooltip h3")).toBeNull();
+		expect(tooltipContent()?.classList.contains("wt-load-error")).toBe(true);
+		expect(tooltipContent()?.textContent).toBe("Tip unavailable");
+		expect(errors).toEqual(["title", "content"]);
+		expect(document.querySelector(".wt-tooltip .wt-next")).not.toBeNull();
+		wt.destroy();
+	});
+});
+
+describe("content formats", () => {
+	it("renders markdown (always sanitized), text and html content", async () => {
+		addTarget("f1");
+		addTarget("f2");
+		addTarget("f3");
+		const wt = new Walkthrough(
+			[
+				{
+					selector: "#f1",
+					content: "**Bold** [link](javascript:alert(1)) <b>raw</b>",
+					allowUnsafeHTML: true,
+				},
+				{ selector: "#f2", content: "<b>literal</b>", contentFormat: "text" },
+				{
+					selector: "#f3",
+					content: () => "<b>html</b>",
+					contentFormat: "html",
+				},
+			],
+			{ stepWaitMs: 0, scrollIntoView: false, contentFormat: "markdown" },
+		);
+		await wt.start();
+		expect(tooltipContent()?.classList.contains("wt-content-markdown")).toBe(
+			true,
+		);
+		expect(tooltipContent()?.innerHTML).toBe(
+			"<p><strong>Bold</strong> <a>link</a> &lt;b&gt;raw&lt;/b&gt;</p>",
+		);
+		await wt.next();
+		expect(tooltipContent()?.textContent).toBe("<b>literal</b>");
+		expect(tooltipContent()?.querySelector("b")).toBeNull();
+		await wt.next();
+		expect(tooltipContent()?.innerHTML).toBe("<b>html</b>");
+		wt.destroy();
 	});
 });
@@ -0,0 +1,135 @@
+/**
+ * Pure geometry helpers for the masked backdrop.
+ *
+ * The default backdrop is a single full‑viewport element clipped with an even‑odd
+ * `clip-path: path(...)`: the outer viewport rectangle minus a shaped hole around the
+ * target. Unlike the legacy four‑panel renderer this allows rounded, circular and pill
+ * cutouts and lets `backdrop-filter` (blur) apply everywhere except the hole.
+ */
+
+/** Shape of the highlight cutout. */
+export type CutoutShape = "rect" | "rounded" | "circle" | "pill";
+
+/** Axis aligned box in viewport coordinates. */
+export interface CutoutBox {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/** Hole bounding box plus the corner radius used to draw it. */
+export interface CutoutGeometry extends CutoutBox {
+	radius: number;
+}
+
+/**
+ * Resolve the hole geometry for a (padded) target box.
+ *  - `rect`    sharp corners
+ *  - `rounded` corner `radius` (clamped to half the shorter side)
+ *  - `circle`  circle around the box center with diameter = longer side
+ *  - `pill`    fully rounded short ends
+ */
+export function cutoutGeometry(
+	box: CutoutBox,
+	shape: CutoutShape = "rounded",
+	radius = 8,
+): CutoutGeometry {
+	const { x, y, width, height } = box;
+	switch (shape) {
+		case "rect":
+			return { ...box, radius: 0 };
+		case "circle": {
+			const d = Math.max(width, height);
+			return {
+				x: x + (width - d) / 2,
+				y: y + (height - d) / 2,
+				width: d,
+				height: d,
+				radius: d / 2,
+			};
+		}
+		case "pill":
+			return { ...box, radius: Math.min(width, height) / 2 };
+		default:
+			return {
+				...box,
+				radius: Math.max(0, Math.min(radius, width / 2, height / 2)),
+			};
+	}
+}
+
+/** Smallest box containing every box in `boxes` (null when empty). */
+export function unionBox(boxes: CutoutBox[]): CutoutBox | null {
+	if (!boxes.length) return null;
+	const x = Math.min(...boxes.map((b) => b.x));
+	const y = Math.min(...boxes.map((b) => b.y));
+	const right = Math.max(...boxes.map((b) => b.x + b.width));
+	const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+	return { x, y, width: right - x, height: bottom - y };
+}
+
+/**
+ * Merge overlapping boxes into their union so each resulting hole is disjoint
+ * (required for separate cutouts under the even‑odd fill rule).
+ */
+export function mergeOverlapping(boxes: CutoutBox[]): CutoutBox[] {
+	const out = boxes.map((b) => ({ ...b }));
+	const overlaps = (a: CutoutBox, b: CutoutBox) =>
+		a.x < b.x + b.width &&
+		b.x < a.x + a.width &&
+		a.y < b.y + b.height &&
+		b.y < a.y + a.height;
+	for (let i = 0; i < out.length; i++) {
+		for (let j = i + 1; j < out.length; j++) {
+			if (!overlaps(out[i], out[j])) continue;
+			out[i] = unionBox([out[i], out[j]]) as CutoutBox;
+			out.splice(j, 1);
+			// Restart: the grown box may now overlap earlier ones
+			i = -1;
+			break;
+		}
+	}
+	return out;
+}
+
+/** Sub‑path for a single (optionally rounded) hole. */
+function holePath(hole: CutoutGeometry, morphable = false): string {
+	const { x, y, width: w, height: h, radius: r } = hole;
+	if (r <= 0 && !morphable) return `M${x} ${y}H${x + w}V${y + h}H${x}Z`;
+	const arc = (ex: number, ey: number) => `A${r} ${r} 0 0 1 ${ex} ${ey}`;
+	return (
+		`M${x + r} ${y}H${x + w - r}${arc(x + w, y + r)}` +
+		`V${y + h - r}${arc(x + w - r, y + h)}H${x + r}${arc(x, y + h - r)}` +
+		`V${y + r}${arc(x + r, y)}Z`
+	);
+}
+
+/**
+ * Build an even‑odd SVG path: the full viewport with one or more holes cut out.
+ * Suitable for `clip-path: path(evenodd, '...')`. Without holes the whole viewport is covered.
+ * Overlapping holes cancel each other under the even‑odd rule, so callers should merge them first.
+ *
+ * `morphable` always emits the rounded command sequence (zero radius arcs for sharp corners) so
+ * paths with the same number of holes can be interpolated by a `clip-path` transition.
+ */
+export function cutoutPath(
+	viewport: { width: number; height: number },
+	holes?: CutoutGeometry | CutoutGeometry[] | null,
+	morphable = false,
+): string {
+	const outer = `M0 0H${viewport.width}V${viewport.height}H0Z`;
+	if (!holes) return outer;
+	const list = Array.isArray(holes) ? holes : [holes];
+	return outer + list.map((hole) => holePath(hole, morphable)).join("");
+}
+
+/**
+ * True unless the browser explicitly reports missing `clip-path: path()` support
+ * (environments without `CSS.supports`, e.g. test DOMs, are assumed capable).
+ */
+export function supportsPathClip(): boolean {
+	if (typeof CSS === "undefined" || typeof CSS.supports !== "function")
+		return true;
+	return CSS.supports("clip-path", "path('M0 0H1V1Z')");
+}
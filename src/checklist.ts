@@ -0,0 +1,415 @@
+/**
+ * Onboarding checklist built on the orchestrator registry.
+ *
+ * Lists selected registered tours with a completion tick (from persisted progress, see
+ * `isTourCompleted`), launches them through `startTourById` and shows the overall percentage.
+ * Ticks update live: every progress write goes through `onProgressChange`, so a tour that
+ * finishes (or is reset) anywhere on the page updates the list immediately.
+ *
+ * Completion is only recorded for tours with `persistProgress: true` in their options.
+ *
+ * - {@link readChecklist}: headless state (shared with the React `OnboardingChecklistPanel`)
+ * - {@link OnboardingChecklist}: vanilla widget (floating card or mounted into a container)
+ *
+ * ```ts
+ * const checklist = new OnboardingChecklist({ tours: ['profile', 'billing', 'invite'], id: 'main' });
+ * await checklist.mount();
+ * ```
+ */
+
+import { type EventHandler, TypedEmitter } from "./events";
+import {
+	formatLabel,
+	getLocale,
+	type LocalizedText,
+	localize,
+	onLocaleChange,
+	resolveLabels,
+	type WalkthroughLabels,
+} from "./i18n";
+import {
+	isTourCompleted,
+	listTours,
+	startTourById,
+	tourProgressId,
+} from "./orchestrator";
+import {
+	getDefaultStorage,
+	onProgressChange,
+	readChecklistState,
+	type StoredChecklist,
+	type WalkthroughStorage,
+	writeChecklistState,
+} from "./storage";
+import { injectDefaultStyles, type Walkthrough } from "./walkthrough";
+
+/** A checklist entry: a registered tour id, optionally with its own label / description. */
+export type ChecklistItem =
+	| string
+	| {
+			/** Registered tour id. */
+			id: string;
+			/** Defaults to the tour's `title`, else its id. */
+			label?: LocalizedText;
+			description?: LocalizedText;
+	  };
+
+/** Resolved state of one checklist entry. */
+export interface ChecklistEntry {
+	id: string;
+	label: string;
+	description?: string;
+	completed: boolean;
+	/** False when the id is not (or no longer) registered. */
+	registered: boolean;
+}
+
+/** Resolved checklist state. */
+export interface ChecklistState {
+	items: ChecklistEntry[];
+	completed: number;
+	total: number;
+	/** Rounded completion percentage (0 for an empty list). */
+	percent: number;
+}
+
+/** Normalise an item to its object form. */
+function itemOf(item: ChecklistItem): Exclude<ChecklistItem, string> {
+	return typeof item === "string" ? { id: item } : item;
+}
+
+/** Completion counters for a list of entries. */
+function summarize(items: ChecklistEntry[]): ChecklistState {
+	const completed = items.filter((i) => i.completed).length;
+	const total = items.length;
+	return {
+		items,
+		completed,
+		total,
+		percent: total ? Math.round((completed / total) * 100) : 0,
+	};
+}
+
+/** Resolve labels and completion for `items` from the tour registry and persisted progress. */
+export async function readChecklist(
+	items: ChecklistItem[],
+	locale: string = getLocale(),
+): Promise<ChecklistState> {
+	const tours = listTours();
+	const entries = await Promise.all(
+		items.map(async (raw) => {
+			const item = itemOf(raw);
+			const tour = tours.find((t) => t.id === item.id);
+			const completed = tour
+				? await isTourCompleted(tourProgressId(tour), tour.options?.storage)
+				: false;
+			return {
+				id: item.id,
+				label: localize(item.label ?? tour?.title, locale) ?? item.id,
+				description: localize(item.description, locale),
+				completed,
+				registered: !!tour,
+			};
+		}),
+	);
+	return summarize(entries);
+}
+
+/**
+ * Watch progress writes for the tours listed in the current state and report updated state.
+ * Uses the written record directly, so asynchronous stores need no re-read.
+ * Returns an unsubscribe function.
+ */
+export function watchChecklist(
+	getState: () => ChecklistState | null,
+	onChange: (state: ChecklistState) => void,
+): () => void {
+	return onProgressChange((progressId, progress) => {
+		const state = getState();
+		if (!state) return;
+		const tours = listTours();
+		let changed = false;
+		const next = state.items.map((entry) => {
+			const tour = tours.find((t) => t.id === entry.id);
+			if (!tour || tourProgressId(tour) !== progressId) return entry;
+			const completed = !!progress?.completed;
+			if (completed === entry.completed) return entry;
+			changed = true;
+			return { ...entry, completed };
+		});
+		if (changed) onChange(summarize(next));
+	});
+}
+
+/** Options for {@link OnboardingChecklist}. */
+export interface OnboardingChecklistOptions {
+	/** Registered tours to list (in display order). */
+	tours: ChecklistItem[];
+	/** Heading. Default: the `checklist` label ("Get started"). */
+	title?: LocalizedText;
+	/** Mount inside this element instead of a fixed card in the bottom corner of the page. */
+	container?: HTMLElement;
+	/** Persist minimized / dismissed state under `__walkthrough_checklist:<id>`. */
+	id?: string;
+	/** Storage adapter for the UI state. Default: the global progress store. */
+	storage?: WalkthroughStorage;
+	/** Start minimized (unless a persisted state says otherwise). Default: false. */
+	minimized?: boolean;
+	/** Same styling modes as walkthroughs. Default: 'default'. */
+	theme?: "default" | "tailwind" | "unstyled";
+	/** Override built‑in strings (`checklist`, `checklistProgress`, `minimize`, `expand`, `close`). */
+	labels?: Partial<WalkthroughLabels>;
+	/** Pin to a locale instead of following the global `setLocale()`. */
+	locale?: string;
+}
+
+/** Event map for {@link OnboardingChecklist.on}. */
+export interface OnboardingChecklistEvents {
+	/** Completion state changed (initial load, a tour finished / was reset). */
+	change: ChecklistState;
+	/** A tour was launched from the list. */
+	launch: { id: string; walkthrough: Walkthrough };
+	/** The user closed the checklist. */
+	dismiss: Record<string, never>;
+}
+
+/**
+ * Vanilla onboarding checklist widget.
+ *
+ * Public methods:
+ *  - {@link mount} / {@link destroy} : render / remove the widget
+ *  - {@link launch} : start a listed tour (as clicking its row does)
+ *  - {@link minimize} / {@link expand} / {@link dismiss} : UI state (persisted with `id`)
+ *  - {@link refresh} / {@link getState} : re-read / inspect completion
+ */
+export class OnboardingChecklist {
+	private opts: OnboardingChecklistOptions;
+	private state: ChecklistState | null = null;
+	private ui: StoredChecklist = {};
+	private root?: HTMLElement;
+	private disposers: (() => void)[] = [];
+	private events = new TypedEmitter<OnboardingChecklistEvents>();
+
+	constructor(options: OnboardingChecklistOptions) {
+		this.opts = options;
+	}
+
+	/** Subscribe to a checklist event. Returns an unsubscribe function. */
+	on<K extends keyof OnboardingChecklistEvents>(
+		event: K,
+		handler: EventHandler<OnboardingChecklistEvents[K]>,
+	): () => void {
+		return this.events.on(event, handler);
+	}
+
+	/** Remove a handler registered with {@link on}. */
+	off<K extends keyof OnboardingChecklistEvents>(
+		event: K,
+		handler: EventHandler<OnboardingChecklistEvents[K]>,
+	) {
+		this.events.off(event, handler);
+	}
+
+	/** Current completion state (null before {@link mount} / {@link refresh}). */
+	getState(): ChecklistState | null {
+		return this.state;
+	}
+
+	/** Load state and render. A checklist the user dismissed earlier stays hidden. */
+	async mount(): Promise<void> {
+		if (typeof document === "undefined" || this.root) return;
+		const stored = this.opts.id
+			? await readChecklistState(this.opts.id, this.storage())
+			: {};
+		this.ui = { minimized: !!this.opts.minimized, ...stored };
+		if (this.ui.dismissed) return;
+		if ((this.opts.theme ?? "default") === "default") injectDefaultStyles();
+		const root = document.createElement("div");
+		root.className = "wt-checklist";
+		if (!this.opts.container) {
+			root.classList.add("wt-checklist-floating");
+			root.style.position = "fixed";
+			root.style.bottom = "16px";
+			root.style.insetInlineEnd = "16px";
+		}
+		if (this.opts.theme === "tailwind")
+			root.classList.add(
+				"rounded-lg",
+				"border",
+				"p-4",
+				"bg-popover",
+				"text-popover-foreground",
+				"shadow-lg",
+			);
+		(this.opts.container ?? document.body).appendChild(root);
+		this.root = root;
+		this.disposers.push(
+			watchChecklist(
+				() => this.state,
+				(state) => this.update(state),
+			),
+		);
+		if (!this.opts.locale)
+			this.disposers.push(onLocaleChange(() => void this.refresh()));
+		await this.refresh();
+	}
+
+	/** Re-read completion for every listed tour and re-render. */
+	async refresh(): Promise<void> {
+		const state = await readChecklist(this.opts.tours, this.locale());
+		if (!this.root) return;
+		this.update(state);
+	}
+
+	/** Start a listed tour via `startTourById`. */
+	launch(id: string): Walkthrough {
+		const walkthrough = startTourById(id);
+		this.events.emit("launch", { id, walkthrough });
+		return walkthrough;
+	}
+
+	/** Collapse to the header (persisted with `id`). */
+	minimize() {
+		this.setUi({ minimized: true });
+	}
+
+	/** Expand from the minimized header (persisted with `id`). */
+	expand() {
+		this.setUi({ minimized: false });
+	}
+
+	/** Close the checklist for good (persisted with `id`; clear the stored key to show it again). */
+	dismiss() {
+		this.setUi({ dismissed: true });
+		this.events.emit("dismiss", {});
+		this.destroy();
+	}
+
+	/** Remove the widget and its listeners (UI state is kept). */
+	destroy() {
+		for (const dispose of this.disposers.splice(0)) dispose();
+		this.root?.remove();
+		this.root = undefined;
+	}
+
+	private storage(): WalkthroughStorage {
+		return this.opts.storage ?? getDefaultStorage();
+	}
+
+	private locale(): string {
+		return this.opts.locale ?? getLocale();
+	}
+
+	private setUi(patch: StoredChecklist) {
+		this.ui = { ...this.ui, ...patch };
+		if (this.opts.id)
+			void writeChecklistState(this.opts.id, this.ui, this.storage());
+		this.render();
+	}
+
+	private update(state: ChecklistState) {
+		this.state = state;
+		this.render();
+		this.events.emit("change", state);
+	}
+
+	private render() {
+		const root = this.root;
+		const state = this.state;
+		if (!root || !state) return;
+		const tailwind = this.opts.theme === "tailwind";
+		const labels = resolveLabels(this.locale(), this.opts.labels);
+		const minimized = !!this.ui.minimized;
+		root.innerHTML = "";
+		root.classList.toggle("wt-checklist-minimized", minimized);
+		root.classList.toggle(
+			"wt-checklist-complete",
+			state.total > 0 && state.completed === state.total,
+		);
+
+		const header = document.createElement("div");
+		header.className = "wt-checklist-header";
+		const h = document.createElement("h3");
+		h.textContent =
+			localize(this.opts.title, this.locale()) ?? labels.checklist;
+		header.appendChild(h);
+		const toggle = document.createElement("button");
+		toggle.type = "button";
+		toggle.className = "wt-checklist-toggle";
+		toggle.textContent = minimized ? "+" : "–";
+		toggle.setAttribute(
+			"aria-label",
+			minimized ? labels.expand : labels.minimize,
+		);
+		toggle.setAttribute("aria-expanded", String(!minimized));
+		toggle.addEventListener("click", () =>
+			minimized ? this.expand() : this.minimize(),
+		);
+		const close = document.createElement("button");
+		close.type = "button";
+		close.className = "wt-checklist-close";
+		close.textContent = "×";
+		close.setAttribute("aria-label", labels.close);
+		close.addEventListener("click", () => this.dismiss());
+		header.append(toggle, close);
+		root.appendChild(header);
+
+		const progress = document.createElement("div");
+		progress.className = "wt-checklist-progress";
+		const text = document.createElement("span");
+		text.textContent = formatLabel(labels.checklistProgress, {
+			percent: state.percent,
+			completed: state.completed,
+			total: state.total,
+		});
+		const bar = document.createElement("div");
+		bar.className = "wt-progress-bar";
+		bar.setAttribute("role", "progressbar");
+		bar.setAttribute("aria-valuemin", "0");
+		bar.setAttribute("aria-valuemax", "100");
+		bar.setAttribute("aria-valuenow", String(state.percent));
+		const fill = document.createElement("div");
+		fill.className = "wt-progress-fill";
+		fill.style.width = `${state.percent}%`;
+		if (tailwind) {
+			bar.classList.add("h-1", "rounded", "bg-muted", "overflow-hidden");
+			fill.classList.add("h-full", "bg-primary", "transition-all");
+		}
+		bar.appendChild(fill);
+		progress.append(text, bar);
+		root.appendChild(progress);
+		if (minimized) return;
+
+		const list = document.createElement("ul");
+		list.className = "wt-checklist-items";
+		for (const entry of state.items) {
+			const li = document.createElement("li");
+			li.className = "wt-checklist-item";
+			li.dataset.tourId = entry.id;
+			if (entry.completed) li.classList.add("wt-checklist-done");
+			const btn = document.createElement("button");
+			btn.type = "button";
+			btn.className = "wt-checklist-launch";
+			btn.disabled = !entry.registered;
+			const check = document.createElement("span");
+			check.className = "wt-checklist-check";
+			check.setAttribute("aria-hidden", "true");
+			check.textContent = entry.completed ? "✓" : "";
+			const label = document.createElement("span");
+			label.className = "wt-checklist-label";
+			label.textContent = entry.label;
+			btn.append(check, label);
+			btn.setAttribute("aria-pressed", String(entry.completed));
+			btn.addEventListener("click", () => this.launch(entry.id));
+			li.appendChild(btn);
+			if (entry.description) {
+				const d = document.createElement("p");
+				d.className = "wt-checklist-description";
+				d.textContent = entry.description;
+				li.appendChild(d);
+			}
+			list.appendChild(li);
+		}
+		root.appendChild(list);
+	}
+}
@@ -0,0 +1,124 @@
+/**
+ * DOM helpers for targets living inside open shadow roots or same‑origin iframes.
+ *
+ * Selector syntax: segments separated by `>>>` descend into the matched element's
+ * open shadow root or, when it is an `<iframe>`, its (same‑origin) document:
+ *
+ * ```ts
+ * querySelectorDeep('my-widget >>> .inner');
+ * querySelectorDeep('#editor >>> rich-toolbar >>> button.bold');
+ * ```
+ *
+ * Closed shadow roots and cross‑origin frames cannot be entered and simply yield no match.
+ */
+
+/** Separator between scopes in a deep selector. */
+export const DEEP_COMBINATOR = ">>>";
+
+/** Structured alternative to the `>>>` syntax. */
+export interface ScopedTarget {
+	/** Same‑origin iframe selector(s), outermost first. Entered before `host`. */
+	frame?: string | string[];
+	/** Shadow host selector(s), outermost first (open shadow roots only). */
+	host?: string | string[];
+	/** Selector of the element inside the innermost scope. */
+	selector: string;
+}
+
+type QueryRoot = Document | ShadowRoot;
+
+/** Convert a {@link ScopedTarget} to the equivalent `>>>` selector. */
+export function toDeepSelector(target: ScopedTarget): string {
+	const list = (v?: string | string[]) => (v == null ? [] : [v].flat());
+	return [...list(target.frame), ...list(target.host), target.selector].join(
+		` ${DEEP_COMBINATOR} `,
+	);
+}
+
+/** Scope an element opens: its open shadow root or, for iframes, the frame document. */
+function scopeOf(el: Element): QueryRoot | null {
+	// tagName check instead of instanceof: nested frames use another realm's constructors
+	if (el.tagName === "IFRAME") {
+		try {
+			return (el as HTMLIFrameElement).contentDocument;
+		} catch {
+			return null; // cross‑origin
+		}
+	}
+	return el.shadowRoot;
+}
+
+/**
+ * Query through shadow roots / iframes. Every match of an intermediate segment is
+ * searched, so `all` returns matches from every scope (deduplicated, document order per scope).
+ */
+export function querySelectorDeep<E extends Element = HTMLElement>(
+	selector: string,
+	all = false,
+	root: QueryRoot = document,
+): E[] {
+	const segments = selector
+		.split(DEEP_COMBINATOR)
+		.map((s) => s.trim())
+		.filter(Boolean);
+	if (!segments.length) return [];
+	let scopes: QueryRoot[] = [root];
+	for (const segment of segments.slice(0, -1)) {
+		scopes = scopes.flatMap((scope) =>
+			Array.from(scope.querySelectorAll(segment))
+				.map(scopeOf)
+				.filter((s): s is QueryRoot => !!s),
+		);
+		if (!scopes.length) return [];
+	}
+	const last = segments[segments.length - 1];
+	const out: E[] = [];
+	for (const scope of scopes) {
+		if (!all) {
+			const el = scope.querySelector<E>(last);
+			if (el) return [el];
+			continue;
+		}
+		for (const el of scope.querySelectorAll<E>(last))
+			if (!out.includes(el)) out.push(el);
+	}
+	return out;
+}
+
+/**
+ * Bounding rect of `el` in the top document's viewport: rects of elements inside
+ * iframes are offset by each containing frame's content box. Shadow DOM needs no
+ * translation (it shares the host document's viewport).
+ */
+export function viewportRect(el: Element): {
+	top: number;
+	left: number;
+	width: number;
+	height: number;
+} {
+	const r = el.getBoundingClientRect();
+	let top = r.top;
+	let left = r.left;
+	let win = el.ownerDocument.defaultView;
+	while (win && win !== window) {
+		let frame: Element | null = null;
+		try {
+			frame = win.frameElement;
+		} catch {
+			break; // cross‑origin parent
+		}
+		if (!frame) break;
+		const fr = frame.getBoundingClientRect();
+		const style = frame.ownerDocument.defaultView?.getComputedStyle(frame);
+		top +=
+			fr.top +
+			frame.clientTop +
+			(Number.parseFloat(style?.paddingTop ?? "") || 0);
+		left +=
+			fr.left +
+			frame.clientLeft +
+			(Number.parseFloat(style?.paddingLeft ?? "") || 0);
+		win = frame.ownerDocument.defaultView;
+	}
+	return { top, left, width: r.width, height: r.height };
+}
@@ -68,6 +68,25 @@ export function WalkthroughDevPanel({
 	}, [collapsed]);
 
 	const tours = listTours();
+	const tourIds = tours.map((t) => t.options?.tourId || t.id).join("|");
+	const [completed, setCompleted] = useState<Record<string, boolean>>({});
+
+	// Completion may come from an async storage adapter; resolve whenever the panel refreshes.
+	// biome-ignore lint/correctness/useExhaustiveDependencies: version / tourIds are refresh triggers
+	useEffect(() => {
+		let cancelled = false;
+		const check = async (t: ReturnType<typeof listTours>[number]) =>
+			[
+				t.id,
+				await isTourCompleted(t.options?.tourId || t.id, t.options?.storage),
+			] as const;
+		Promise.all(listTours().map(check)).then((entries) => {
+			if (!cancelled) setCompleted(Object.fromEntries(entries));
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [version, tourIds]);
 
 	const forceRefresh = () => setVersion((v) => v + 1);
 
@@ -89,13 +108,14 @@ export function WalkthroughDevPanel({
 		}
 	};
 
-	const resetTour = (id: string) => {
-		clearTourProgress(id);
+	const resetTour = async (id: string) => {
+		const t = tours.find((t) => t.id === id);
+		await clearTourProgress(t?.options?.tourId || id, t?.options?.storage);
 		forceRefresh();
 	};
 
-	const resetAll = () => {
-		resetAllTourProgress();
+	const resetAll = async () => {
+		await resetAllTourProgress();
 		forceRefresh();
 	};
 
@@ -237,7 +257,6 @@ export function WalkthroughDevPanel({
 				}}
 			>
 				{tours.map((t) => {
-					const completed = isTourCompleted(t.id);
 					return (
 						<li
 							key={t.id}
@@ -258,7 +277,7 @@ export function WalkthroughDevPanel({
 							>
 								<span style={{ fontWeight: 600 }}>{t.id}</span>
 								<span style={{ fontSize: 10, opacity: 0.7 }}>
-									{completed ? "completed" : "pending"}
+									{completed[t.id] ? "completed" : "pending"}
 								</span>
 							</div>
 							<div style={{ fontSize: 10, opacity: 0.7, marginBottom: 4 }}>
@@ -0,0 +1,69 @@
+/**
+ * Minimal typed event emitter used by {@link Walkthrough} (and reusable by other primitives).
+ *
+ * Design notes:
+ *  - Event names and payloads are described by a map type so `on` / `off` are fully typed.
+ *  - Handlers run synchronously in subscription order; a throwing handler never prevents
+ *    the remaining handlers from running. Failures are passed to the optional `onError`
+ *    callback supplied by the owner (the walkthrough re-emits them as its `error` event).
+ *  - No dependency on Node's `EventEmitter` or DOM `EventTarget` so it works in any runtime.
+ */
+
+/** Handler signature for an event whose payload type is `P`. */
+export type EventHandler<P> = (payload: P) => void;
+
+export class TypedEmitter<Events extends object> {
+	private handlers = new Map<keyof Events, Set<EventHandler<never>>>();
+	private onError?: (error: unknown, event: keyof Events) => void;
+
+	/**
+	 * @param onError Invoked when a handler throws (receives the error and the event name).
+	 */
+	constructor(onError?: (error: unknown, event: keyof Events) => void) {
+		this.onError = onError;
+	}
+
+	/** Subscribe to an event. Returns an unsubscribe function. */
+	on<K extends keyof Events>(
+		event: K,
+		handler: EventHandler<Events[K]>,
+	): () => void {
+		let set = this.handlers.get(event);
+		if (!set) {
+			set = new Set();
+			this.handlers.set(event, set);
+		}
+		set.add(handler as EventHandler<never>);
+		return () => this.off(event, handler);
+	}
+
+	/** Remove a previously registered handler (no-op if not registered). */
+	off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>) {
+		this.handlers.get(event)?.delete(handler as EventHandler<never>);
+	}
+
+	/** Synchronously invoke every handler registered for `event`. */
+	emit<K extends keyof Events>(event: K, payload: Events[K]) {
+		const set = this.handlers.get(event);
+		if (!set?.size) return;
+		// Copy so handlers may unsubscribe themselves while iterating
+		for (const handler of [...set] as EventHandler<Events[K]>[]) {
+			try {
+				handler(payload);
+			} catch (error) {
+				this.onError?.(error, event);
+			}
+		}
+	}
+
+	/** True if at least one handler is registered for `event`. */
+	has<K extends keyof Events>(event: K): boolean {
+		return !!this.handlers.get(event)?.size;
+	}
+
+	/** Remove all handlers (optionally only for one event). */
+	clear(event?: keyof Events) {
+		if (event === undefined) this.handlers.clear();
+		else this.handlers.delete(event);
+	}
+}
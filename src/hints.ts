@@ -0,0 +1,469 @@
+/**
+ * Persistent contextual hints, independent of any tour.
+ *
+ * A {@link HintsLayer} attaches many dismissible help bubbles (or "?" icons that open them)
+ * to elements on the page at once. There is no backdrop and no step order; each hint lives
+ * on its own until the user dismisses it. Dismissals are persisted per hint id through the
+ * same storage adapters as tour progress (`__walkthrough_hints:<layer id>`).
+ *
+ * Rendering reuses the tour tooltip: bubbles are `.wt-tooltip.wt-hint` elements styled by the
+ * same `theme`, their `content` goes through the same sanitizer and positions follow the page
+ * on resize, scroll and DOM mutations just like an active walkthrough.
+ *
+ * ```ts
+ * const hints = new HintsLayer(
+ *   [
+ *     { id: 'export', target: '#export', title: 'Export', content: 'Download as CSV.' },
+ *     { id: 'filters', target: '#filters', content: 'Combine filters with Shift.', display: 'bubble' },
+ *   ],
+ *   { id: 'dashboard' },
+ * );
+ * await hints.show();
+ * toggleButton.onclick = () => hints.toggle();
+ * ```
+ */
+
+import { querySelectorDeep, viewportRect } from "./deep-query";
+import { type EventHandler, TypedEmitter } from "./events";
+import {
+	getLocale,
+	type LocalizedText,
+	localize,
+	onLocaleChange,
+	resolveLabels,
+	type WalkthroughLabels,
+} from "./i18n";
+import { computePlacement, type Placement } from "./placement";
+import {
+	getDefaultStorage,
+	readDismissedHints,
+	type WalkthroughStorage,
+	writeDismissedHints,
+} from "./storage";
+import { isOverlayMutation } from "./wait";
+import { injectDefaultStyles, sanitizeHTML } from "./walkthrough";
+
+/** A single hint attached to an element. */
+export interface Hint {
+	/** Unique id; dismissals are persisted under it. */
+	id: string;
+	/** Selector (`>>>` pierces open shadow roots / same‑origin iframes) or element. */
+	target: string | Element;
+	title?: LocalizedText;
+	/** HTML body (sanitized unless `allowUnsafeHTML`). */
+	content?: LocalizedText;
+	/** Skip sanitizing `content` (trusted sources only). Default: false. */
+	allowUnsafeHTML?: boolean;
+	/** `icon`: a "?" button toggles the bubble; `bubble`: always open. Inherits the layer `display`. */
+	display?: "icon" | "bubble";
+	/** Bubble placement relative to the target. Default: 'auto'. */
+	placement?: Placement;
+	/** Gap (px) between target and bubble. Default: 10. */
+	offset?: number;
+	/** Show a dismiss button. Default: true. */
+	dismissible?: boolean;
+}
+
+/** Options for {@link HintsLayer}. */
+export interface HintsLayerOptions {
+	/** Layer id used as persistence key. Without it dismissals only last for the page lifetime. */
+	id?: string;
+	/** Storage adapter for dismissals. Default: the global progress store. */
+	storage?: WalkthroughStorage;
+	/** Default {@link Hint.display}. Default: 'icon'. */
+	display?: "icon" | "bubble";
+	/** Same styling modes as walkthroughs. Default: 'default'. */
+	theme?: "default" | "tailwind" | "unstyled";
+	/** z-index of the layer root. Default: 9998 (just below tours). */
+	zIndex?: number;
+	/** Additional classes appended to every bubble. */
+	tooltipClass?: string;
+	/** Override built‑in strings (`dismiss`, `hint`). */
+	labels?: Partial<WalkthroughLabels>;
+	/** Pin the layer to a locale instead of following the global `setLocale()`. */
+	locale?: string;
+}
+
+/** Event map for {@link HintsLayer.on}. */
+export interface HintsLayerEvents {
+	/** A hint's bubble was opened (icon click or {@link HintsLayer.open}). */
+	"hint:open": { id: string; hint: Hint };
+	/** A hint's bubble was closed without dismissing it. */
+	"hint:close": { id: string; hint: Hint };
+	/** A hint was dismissed (and persisted when the layer has an `id`). */
+	"hint:dismiss": { id: string; hint: Hint };
+}
+
+/** DOM nodes rendered for one hint. */
+interface RenderedHint {
+	icon?: HTMLButtonElement;
+	bubble: HTMLDivElement;
+}
+
+/**
+ * Layer of independent, dismissible hints.
+ *
+ * Public methods:
+ *  - {@link show} / {@link hide} / {@link toggle} : show‑all / hide‑all for the whole layer
+ *  - {@link add} / {@link remove} : manage hints at runtime
+ *  - {@link open} / {@link close} : expand or collapse an icon hint
+ *  - {@link dismiss} / {@link resetDismissed} : persistently hide hints / bring them back
+ *  - {@link reposition} : recompute positions (called automatically on resize / scroll / mutations)
+ *  - {@link destroy} : tear down DOM, listeners and event handlers
+ */
+export class HintsLayer {
+	private hints: Hint[];
+	private opts: HintsLayerOptions;
+	private dismissed = new Set<string>();
+	private expanded = new Set<string>();
+	private rendered = new Map<string, RenderedHint>();
+	private root?: HTMLElement;
+	private loaded?: Promise<void>;
+	private visible = false;
+	private mutationObserver?: MutationObserver;
+	private localeDisposer?: () => void;
+	private repositionHandler = () => this.reposition();
+	private events = new TypedEmitter<HintsLayerEvents>();
+
+	constructor(hints: Hint[] = [], options: HintsLayerOptions = {}) {
+		this.hints = [...hints];
+		this.opts = options;
+	}
+
+	/** Subscribe to a layer event. Returns an unsubscribe function. */
+	on<K extends keyof HintsLayerEvents>(
+		event: K,
+		handler: EventHandler<HintsLayerEvents[K]>,
+	): () => void {
+		return this.events.on(event, handler);
+	}
+
+	/** Remove a handler registered with {@link on}. */
+	off<K extends keyof HintsLayerEvents>(
+		event: K,
+		handler: EventHandler<HintsLayerEvents[K]>,
+	) {
+		this.events.off(event, handler);
+	}
+
+	/** Whether the layer is currently shown. */
+	isVisible(): boolean {
+		return this.visible;
+	}
+
+	/** True if the hint was dismissed (persisted dismissals are known after {@link show}). */
+	isDismissed(id: string): boolean {
+		return this.dismissed.has(id);
+	}
+
+	/** Show every hint that has not been dismissed. */
+	async show(): Promise<void> {
+		if (typeof document === "undefined") return;
+		await this.loadDismissed();
+		if (this.visible) return;
+		this.visible = true;
+		this.mount();
+		this.renderAll();
+	}
+
+	/** Hide every hint (nothing is dismissed; {@link show} brings them back). */
+	hide() {
+		if (!this.visible) return;
+		this.visible = false;
+		this.unmount();
+	}
+
+	/** Show‑all / hide‑all toggle. Resolves with the new visibility. */
+	async toggle(force?: boolean): Promise<boolean> {
+		if (force ?? !this.visible) await this.show();
+		else this.hide();
+		return this.visible;
+	}
+
+	/** Add (or replace, by id) a hint. */
+	add(hint: Hint) {
+		this.removeNodes(hint.id);
+		const i = this.hints.findIndex((h) => h.id === hint.id);
+		if (i >= 0) this.hints[i] = hint;
+		else this.hints.push(hint);
+		if (this.visible) this.renderHint(hint);
+	}
+
+	/** Remove a hint without dismissing it. */
+	remove(id: string) {
+		this.hints = this.hints.filter((h) => h.id !== id);
+		this.expanded.delete(id);
+		this.removeNodes(id);
+	}
+
+	/** Expand an icon hint's bubble. */
+	open(id: string) {
+		const hint = this.find(id);
+		if (!hint || this.expanded.has(id) || this.dismissed.has(id)) return;
+		this.expanded.add(id);
+		this.refresh(hint);
+		this.events.emit("hint:open", { id, hint });
+	}
+
+	/** Collapse an icon hint's bubble back to its icon. */
+	close(id: string) {
+		const hint = this.find(id);
+		if (!hint || !this.expanded.delete(id)) return;
+		this.refresh(hint);
+		this.events.emit("hint:close", { id, hint });
+	}
+
+	/** Permanently hide a hint (persisted when the layer has an `id`). */
+	dismiss(id: string): Promise<void> {
+		const hint = this.find(id);
+		if (!hint || this.dismissed.has(id)) return Promise.resolve();
+		this.dismissed.add(id);
+		this.expanded.delete(id);
+		this.removeNodes(id);
+		this.events.emit("hint:dismiss", { id, hint });
+		return this.persist();
+	}
+
+	/** Forget dismissals (all, or the given ids) and show those hints again. */
+	resetDismissed(ids?: string[]): Promise<void> {
+		for (const id of ids ?? [...this.dismissed]) this.dismissed.delete(id);
+		if (this.visible) this.renderAll();
+		return this.persist();
+	}
+
+	/** Recompute every hint position (targets that appeared / vanished are picked up too). */
+	reposition() {
+		if (!this.visible) return;
+		for (const hint of this.hints) {
+			const nodes = this.rendered.get(hint.id);
+			if (nodes) this.positionHint(hint, nodes);
+		}
+	}
+
+	/** Remove all DOM, listeners and event handlers. */
+	destroy() {
+		this.hide();
+		this.events.clear();
+	}
+
+	private find(id: string): Hint | undefined {
+		return this.hints.find((h) => h.id === id);
+	}
+
+	private storage(): WalkthroughStorage {
+		return this.opts.storage ?? getDefaultStorage();
+	}
+
+	/** Load persisted dismissals once (later calls reuse the same promise). */
+	private loadDismissed(): Promise<void> {
+		const id = this.opts.id;
+		if (!this.loaded)
+			this.loaded = id
+				? readDismissedHints(id, this.storage()).then((ids) => {
+						for (const d of ids) this.dismissed.add(d);
+					})
+				: Promise.resolve();
+		return this.loaded;
+	}
+
+	private persist(): Promise<void> {
+		if (!this.opts.id) return Promise.resolve();
+		return writeDismissedHints(
+			this.opts.id,
+			[...this.dismissed],
+			this.storage(),
+		);
+	}
+
+	/** Create the layer root and attach the repositioning listeners. */
+	private mount() {
+		const theme = this.opts.theme ?? "default";
+		if (theme === "default") injectDefaultStyles();
+		const root = document.createElement("div");
+		root.className = "wt-root wt-hints";
+		root.setAttribute("data-walkthrough-hints", this.opts.id ?? "");
+		root.style.position = "fixed";
+		root.style.inset = "0";
+		root.style.zIndex = String(this.opts.zIndex ?? 9998);
+		root.style.pointerEvents = "none";
+		document.body.appendChild(root);
+		this.root = root;
+		// Same triggers as an active walkthrough's `reposition()`
+		window.addEventListener("resize", this.repositionHandler, {
+			passive: true,
+		});
+		window.addEventListener("scroll", this.repositionHandler, true);
+		if (typeof MutationObserver !== "undefined") {
+			this.mutationObserver = new MutationObserver((records) => {
+				// Ignore positioning writes of this and any other overlay (tours, other layers)
+				if (records.every(isOverlayMutation)) return;
+				this.reposition();
+			});
+			this.mutationObserver.observe(document.body, {
+				attributes: true,
+				childList: true,
+				subtree: true,
+			});
+		}
+		if (!this.opts.locale)
+			this.localeDisposer = onLocaleChange(() => this.renderAll());
+	}
+
+	private unmount() {
+		window.removeEventListener("resize", this.repositionHandler);
+		window.removeEventListener("scroll", this.repositionHandler, true);
+		this.mutationObserver?.disconnect();
+		this.mutationObserver = undefined;
+		this.localeDisposer?.();
+		this.localeDisposer = undefined;
+		this.rendered.clear();
+		this.root?.remove();
+		this.root = undefined;
+	}
+
+	private renderAll() {
+		for (const id of [...this.rendered.keys()]) this.removeNodes(id);
+		for (const hint of this.hints) this.renderHint(hint);
+	}
+
+	private removeNodes(id: string) {
+		const nodes = this.rendered.get(id);
+		nodes?.icon?.remove();
+		nodes?.bubble.remove();
+		this.rendered.delete(id);
+	}
+
+	/** Re-render one hint in place (e.g. after open / close). */
+	private refresh(hint: Hint) {
+		if (!this.visible) return;
+		this.removeNodes(hint.id);
+		this.renderHint(hint);
+	}
+
+	private displayOf(hint: Hint): "icon" | "bubble" {
+		return hint.display ?? this.opts.display ?? "icon";
+	}
+
+	/** Build the icon / bubble for a hint and position them. */
+	private renderHint(hint: Hint) {
+		if (!this.root || this.dismissed.has(hint.id)) return;
+		const theme = this.opts.theme ?? "default";
+		const locale = this.opts.locale ?? getLocale();
+		const labels = resolveLabels(locale, this.opts.labels);
+		const title = localize(hint.title, locale);
+		const content = localize(hint.content, locale);
+		const nodes: RenderedHint = { bubble: document.createElement("div") };
+
+		if (this.displayOf(hint) === "icon") {
+			const icon = document.createElement("button");
+			icon.type = "button";
+			icon.className = "wt-hint-icon";
+			icon.textContent = "?";
+			icon.style.position = "fixed";
+			icon.style.pointerEvents = "auto";
+			icon.setAttribute("aria-label", title || labels.hint);
+			icon.setAttribute("aria-expanded", String(this.expanded.has(hint.id)));
+			icon.dataset.hintId = hint.id;
+			if (theme === "tailwind")
+				icon.classList.add(
+					"size-5",
+					"rounded-full",
+					"bg-primary",
+					"text-primary-foreground",
+					"text-xs",
+				);
+			icon.addEventListener("click", () =>
+				this.expanded.has(hint.id) ? this.close(hint.id) : this.open(hint.id),
+			);
+			this.root.appendChild(icon);
+			nodes.icon = icon;
+		}
+
+		const bubble = nodes.bubble;
+		bubble.className = "wt-tooltip wt-hint";
+		bubble.dataset.hintId = hint.id;
+		bubble.setAttribute("role", "note");
+		bubble.style.position = "fixed";
+		bubble.style.pointerEvents = "auto";
+		if (theme !== "unstyled") bubble.style.flexDirection = "column";
+		if (theme === "tailwind")
+			bubble.classList.add(
+				"rounded-lg",
+				"border",
+				"p-3",
+				"bg-popover",
+				"text-popover-foreground",
+				"shadow-lg",
+			);
+		if (this.opts.tooltipClass)
+			bubble.classList.add(
+				...this.opts.tooltipClass.split(/\s+/).filter(Boolean),
+			);
+		if (title) {
+			const h = document.createElement("h3");
+			h.textContent = title;
+			bubble.appendChild(h);
+		}
+		if (content) {
+			const c = document.createElement("div");
+			c.className = "wt-content";
+			c.innerHTML = hint.allowUnsafeHTML ? content : sanitizeHTML(content);
+			bubble.appendChild(c);
+		}
+		if (hint.dismissible !== false) {
+			const nav = document.createElement("div");
+			nav.className = "wt-nav";
+			const dismiss = document.createElement("button");
+			dismiss.type = "button";
+			dismiss.className = "wt-hint-dismiss";
+			dismiss.textContent = labels.dismiss;
+			dismiss.addEventListener("click", () => this.dismiss(hint.id));
+			nav.appendChild(dismiss);
+			bubble.appendChild(nav);
+		}
+		this.root.appendChild(bubble);
+		this.rendered.set(hint.id, nodes);
+		this.positionHint(hint, nodes);
+	}
+
+	/** Resolve the hint target (null when missing / detached). */
+	private targetOf(hint: Hint): Element | null {
+		if (typeof hint.target !== "string")
+			return hint.target.isConnected ? hint.target : null;
+		try {
+			return querySelectorDeep(hint.target)[0] ?? null;
+		} catch {
+			return null;
+		}
+	}
+
+	/** Place the icon on the target's top‑right corner and the bubble next to the target. */
+	private positionHint(hint: Hint, nodes: RenderedHint) {
+		const el = this.targetOf(hint);
+		const bubbleShown = !!el && (!nodes.icon || this.expanded.has(hint.id));
+		if (nodes.icon) nodes.icon.style.display = el ? "" : "none";
+		nodes.bubble.hidden = !bubbleShown;
+		const display = this.opts.theme === "unstyled" ? "" : "flex";
+		nodes.bubble.style.display = bubbleShown ? display : "none";
+		if (!el) return;
+		const rect = viewportRect(el);
+		if (nodes.icon) {
+			const half = (nodes.icon.offsetWidth || 18) / 2;
+			nodes.icon.style.top = `${rect.top - half}px`;
+			nodes.icon.style.left = `${rect.left + rect.width - half}px`;
+		}
+		if (!bubbleShown) return;
+		const result = computePlacement(
+			rect,
+			{
+				width: nodes.bubble.offsetWidth || 240,
+				height: nodes.bubble.offsetHeight || 100,
+			},
+			{ width: window.innerWidth, height: window.innerHeight },
+			{ placement: hint.placement, offset: hint.offset ?? 10 },
+		);
+		nodes.bubble.style.top = `${result.top}px`;
+		nodes.bubble.style.left = `${result.left}px`;
+		nodes.bubble.setAttribute("data-placement", result.placement);
+	}
+}
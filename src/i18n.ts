@@ -0,0 +1,307 @@
+/**
+ * Labels & localization for the built‑in tooltip.
+ *
+ * - {@link WalkthroughLabels}: every user facing string rendered by the default tooltip.
+ * - Locale bundles ship for a handful of languages; more can be added with {@link registerLocale}.
+ * - {@link setLocale} switches the global locale (active walkthroughs re‑render their tooltip);
+ *   a tour can pin its own `locale` option.
+ * - Step `title` / `content` / choice labels accept {@link LocalizedText}: a plain string or a
+ *   `{ [locale]: string }` map resolved with fallback (`pt-BR` → `pt` → fallback locale → first entry).
+ *
+ * Templates use `{name}` placeholders (`{current}`, `{total}`, `{index}`).
+ */
+
+/** Strings rendered by the default tooltip. */
+export interface WalkthroughLabels {
+	back: string;
+	skip: string;
+	next: string;
+	/** Next button text on the last step. */
+	done: string;
+	/** `progress: 'fraction'` text. Placeholders: `{current}`, `{total}`. */
+	progress: string;
+	/** Accessible label of the progress dots group. Placeholders: `{current}`, `{total}`. */
+	stepOf: string;
+	/** Accessible label of a single progress dot. Placeholder: `{index}`. */
+	step: string;
+	/** Accessible label of the `mode: 'beacon'` hotspot (when the step has no title). */
+	beacon: string;
+	/** Dismiss button of a `HintsLayer` bubble. */
+	dismiss: string;
+	/** Accessible label of a `HintsLayer` "?" icon (when the hint has no title). */
+	hint: string;
+	/** Default onboarding checklist heading. */
+	checklist: string;
+	/** Onboarding checklist completion text. Placeholders: `{percent}`, `{completed}`, `{total}`. */
+	checklistProgress: string;
+	/** Checklist minimize button. */
+	minimize: string;
+	/** Checklist expand button (while minimized). */
+	expand: string;
+	/** Checklist close button. */
+	close: string;
+	/** Placeholder while an async step `content` is loading. */
+	loading: string;
+	/** Shown instead of step `content` that failed to load. */
+	loadError: string;
+}
+
+/** Plain text, or translations keyed by locale (e.g. `{ en: 'Hello', de: 'Hallo' }`). */
+export type LocalizedText = string | Record<string, string>;
+
+/** Locale used when neither the active locale nor its base language has a translation. */
+export const FALLBACK_LOCALE = "en";
+
+const en: WalkthroughLabels = {
+	back: "Back",
+	skip: "Skip",
+	next: "Next",
+	done: "Done",
+	progress: "{current} / {total}",
+	stepOf: "Step {current} of {total}",
+	step: "Step {index}",
+	beacon: "Show tip",
+	dismiss: "Got it",
+	hint: "Show help",
+	checklist: "Get started",
+	checklistProgress: "{percent}% complete",
+	minimize: "Minimize",
+	expand: "Expand",
+	close: "Close",
+	loading: "Loading…",
+	loadError: "This content could not be loaded.",
+};
+
+const bundles: Record<string, Partial<WalkthroughLabels>> = {
+	en,
+	de: {
+		back: "Zurück",
+		skip: "Überspringen",
+		next: "Weiter",
+		done: "Fertig",
+		stepOf: "Schritt {current} von {total}",
+		step: "Schritt {index}",
+		beacon: "Hinweis anzeigen",
+		dismiss: "Verstanden",
+		hint: "Hilfe anzeigen",
+		checklist: "Erste Schritte",
+		checklistProgress: "{percent} % erledigt",
+		minimize: "Minimieren",
+		expand: "Erweitern",
+		close: "Schließen",
+		loading: "Wird geladen…",
+		loadError: "Der Inhalt konnte nicht geladen werden.",
+	},
+	fr: {
+		back: "Retour",
+		skip: "Passer",
+		next: "Suivant",
+		done: "Terminer",
+		stepOf: "Étape {current} sur {total}",
+		step: "Étape {index}",
+		beacon: "Afficher l’astuce",
+		dismiss: "Compris",
+		hint: "Afficher l’aide",
+		checklist: "Bien démarrer",
+		checklistProgress: "{percent} % terminé",
+		minimize: "Réduire",
+		expand: "Développer",
+		close: "Fermer",
+		loading: "Chargement…",
+		loadError: "Impossible de charger le contenu.",
+	},
+	es: {
+		back: "Atrás",
+		skip: "Omitir",
+		next: "Siguiente",
+		done: "Listo",
+		stepOf: "Paso {current} de {total}",
+		step: "Paso {index}",
+		beacon: "Mostrar consejo",
+		dismiss: "Entendido",
+		hint: "Mostrar ayuda",
+		checklist: "Primeros pasos",
+		checklistProgress: "{percent} % completado",
+		minimize: "Minimizar",
+		expand: "Expandir",
+		close: "Cerrar",
+		loading: "Cargando…",
+		loadError: "No se pudo cargar el contenido.",
+	},
+	it: {
+		back: "Indietro",
+		skip: "Salta",
+		next: "Avanti",
+		done: "Fine",
+		stepOf: "Passo {current} di {total}",
+		step: "Passo {index}",
+		beacon: "Mostra suggerimento",
+		dismiss: "Ho capito",
+		hint: "Mostra aiuto",
+		checklist: "Per iniziare",
+		checklistProgress: "{percent}% completato",
+		minimize: "Riduci",
+		expand: "Espandi",
+		close: "Chiudi",
+		loading: "Caricamento…",
+		loadError: "Impossibile caricare il contenuto.",
+	},
+	pt: {
+		back: "Voltar",
+		skip: "Pular",
+		next: "Próximo",
+		done: "Concluir",
+		stepOf: "Etapa {current} de {total}",
+		step: "Etapa {index}",
+		beacon: "Mostrar dica",
+		dismiss: "Entendi",
+		hint: "Mostrar ajuda",
+		checklist: "Primeiros passos",
+		checklistProgress: "{percent}% concluído",
+		minimize: "Minimizar",
+		expand: "Expandir",
+		close: "Fechar",
+		loading: "Carregando…",
+		loadError: "Não foi possível carregar o conteúdo.",
+	},
+	nl: {
+		back: "Terug",
+		skip: "Overslaan",
+		next: "Volgende",
+		done: "Klaar",
+		stepOf: "Stap {current} van {total}",
+		step: "Stap {index}",
+		beacon: "Tip tonen",
+		dismiss: "Begrepen",
+		hint: "Help tonen",
+		checklist: "Aan de slag",
+		checklistProgress: "{percent}% voltooid",
+		minimize: "Minimaliseren",
+		expand: "Uitklappen",
+		close: "Sluiten",
+		loading: "Laden…",
+		loadError: "De inhoud kon niet worden geladen.",
+	},
+	ja: {
+		back: "戻る",
+		skip: "スキップ",
+		next: "次へ",
+		done: "完了",
+		stepOf: "ステップ {current}/{total}",
+		step: "ステップ {index}",
+		beacon: "ヒントを表示",
+		dismiss: "了解",
+		hint: "ヘルプを表示",
+		checklist: "はじめに",
+		checklistProgress: "{percent}% 完了",
+		minimize: "最小化",
+		expand: "展開",
+		close: "閉じる",
+		loading: "読み込み中…",
+		loadError: "コンテンツを読み込めませんでした。",
+	},
+	zh: {
+		back: "上一步",
+		skip: "跳过",
+		next: "下一步",
+		done: "完成",
+		stepOf: "第 {current} 步，共 {total} 步",
+		step: "第 {index} 步",
+		beacon: "显示提示",
+		dismiss: "知道了",
+		hint: "显示帮助",
+		checklist: "快速入门",
+		checklistProgress: "已完成 {percent}%",
+		minimize: "最小化",
+		expand: "展开",
+		close: "关闭",
+		loading: "加载中…",
+		loadError: "无法加载内容。",
+	},
+};
+
+let activeLocale = FALLBACK_LOCALE;
+const listeners = new Set<(locale: string) => void>();
+
+/** Locale candidates from most to least specific: `pt-BR` → [`pt-BR`, `pt`]. */
+function candidates(locale: string): string[] {
+	const base = locale.split("-")[0];
+	return base && base !== locale ? [locale, base] : [locale];
+}
+
+/** Add or extend a locale bundle (merged over any existing bundle for that locale). */
+export function registerLocale(
+	locale: string,
+	labels: Partial<WalkthroughLabels>,
+) {
+	bundles[locale] = { ...bundles[locale], ...labels };
+}
+
+/** Locales with a registered bundle. */
+export function getLocales(): string[] {
+	return Object.keys(bundles);
+}
+
+/** Switch the global locale. Active walkthroughs without a pinned `locale` re‑render. */
+export function setLocale(locale: string) {
+	if (locale === activeLocale) return;
+	activeLocale = locale;
+	for (const listener of [...listeners]) {
+		try {
+			listener(locale);
+		} catch {}
+	}
+}
+
+/** Current global locale. Default: `en`. */
+export function getLocale(): string {
+	return activeLocale;
+}
+
+/** Subscribe to {@link setLocale} changes. Returns an unsubscribe function. */
+export function onLocaleChange(listener: (locale: string) => void): () => void {
+	listeners.add(listener);
+	return () => listeners.delete(listener);
+}
+
+/**
+ * Resolve the full label set for `locale`: fallback bundle, then base language and exact
+ * locale bundles, then `overrides` in order (later wins, e.g. tour then step labels).
+ */
+export function resolveLabels(
+	locale: string = activeLocale,
+	...overrides: (Partial<WalkthroughLabels> | undefined)[]
+): WalkthroughLabels {
+	const chain = candidates(locale)
+		.reverse()
+		.map((l) => bundles[l]);
+	return Object.assign(
+		{},
+		en,
+		bundles[FALLBACK_LOCALE],
+		...chain,
+		...overrides,
+	);
+}
+
+/** Resolve {@link LocalizedText} for `locale` (see module docs for the fallback order). */
+export function localize(
+	text: LocalizedText | undefined,
+	locale: string = activeLocale,
+): string | undefined {
+	if (text == null || typeof text === "string") return text;
+	for (const l of [...candidates(locale), FALLBACK_LOCALE]) {
+		if (text[l] != null) return text[l];
+	}
+	return Object.values(text)[0];
+}
+
+/** Replace `{name}` placeholders in a label template. */
+export function formatLabel(
+	template: string,
+	values: Record<string, string | number>,
+): string {
+	return template.replace(/\{(\w+)\}/g, (m, key: string) =>
+		key in values ? String(values[key]) : m,
+	);
+}
@@ -1,5 +1,16 @@
+export type { CutoutShape } from "./backdrop";
+export * from "./checklist";
+export * from "./deep-query";
 export * from "./dev-panel";
+export * from "./events";
+export * from "./hints";
+export * from "./i18n";
+export * from "./markdown";
 export * from "./orchestrator";
+export * from "./placement";
+export * from "./react-checklist";
 export * from "./react-provider";
 export * from "./react-route-orchestrator";
+export * from "./storage";
+export type { TargetState, WaitStrategy } from "./wait";
 export * from "./walkthrough";
@@ -0,0 +1,171 @@
+/**
+ * Tiny Markdown renderer for step copy (`contentFormat: 'markdown'`).
+ *
+ * Covers what tour copy needs and nothing more:
+ *  - ATX headings (`#` … `######`), paragraphs, hard line breaks (two trailing spaces or `\`)
+ *  - `**strong**` / `__strong__`, `*em*` / `_em_`, `~~strikethrough~~`, backslash escapes
+ *  - unordered (`-`, `*`, `+`) and ordered (`1.` / `1)`) lists, one level deep
+ *  - `[links](url "title")`, `![images](src "title")`, `` `code` `` and fenced code blocks
+ *
+ * Raw HTML in the source is escaped, not passed through. Relative link / image URLs are resolved
+ * against the document base URL so they survive {@link sanitizeHTML}, which callers should still
+ * run on the output (the walkthrough always does).
+ */
+
+const ESCAPES: Record<string, string> = {
+	"&": "&amp;",
+	"<": "&lt;",
+	">": "&gt;",
+	'"': "&quot;",
+	"'": "&#39;",
+};
+
+/** List being collected by {@link renderMarkdown}. */
+interface ListBlock {
+	tag: "ul" | "ol";
+	start: number;
+	items: string[];
+}
+
+/** Escape text for use in HTML content / attribute values. */
+function escapeHTML(text: string): string {
+	return text.replace(/[&<>"']/g, (c) => ESCAPES[c]);
+}
+
+/** Absolute form of a relative URL (left untouched without a DOM or when it cannot be parsed). */
+function resolveUrl(url: string): string {
+	if (/^[a-z][\w+.-]*:/i.test(url) || typeof document === "undefined")
+		return url;
+	try {
+		return new URL(url, document.baseURI).href;
+	} catch {
+		return url;
+	}
+}
+
+/** Placeholder for an already rendered fragment (private use characters never occur in copy). */
+const TOKEN = /\uE000(\d+)\uE000/g;
+
+/**
+ * Inline Markdown (code, links, images, emphasis) to HTML. Finished fragments are parked in
+ * `parked` behind {@link TOKEN}s so later passes leave them alone; the caller restores them.
+ */
+function inlineHTML(text: string, parked: string[]): string {
+	const park = (html: string) => `\uE000${parked.push(html) - 1}\uE000`;
+	const out = text
+		.replace(/(`+)(.+?)\1/g, (_, __, code: string) =>
+			park(`<code>${escapeHTML(code.trim())}</code>`),
+		)
+		.replace(/\\([\\`*_{}[\]()#+\-.!~>|])/g, (_, c: string) =>
+			park(escapeHTML(c)),
+		)
+		.replace(
+			/(!?)\[([^\]]*)\]\(\s*<?((?:[^\s()<>]|\([^\s()]*\))*)>?(?:\s+"([^"]*)")?\s*\)/g,
+			(_, bang: string, label: string, url: string, title?: string) => {
+				const src = escapeHTML(resolveUrl(url));
+				const titleAttr = title ? ` title="${escapeHTML(title)}"` : "";
+				return park(
+					bang
+						? `<img src="${src}" alt="${escapeHTML(label)}"${titleAttr}>`
+						: `<a href="${src}"${titleAttr}>${inlineHTML(label, parked)}</a>`,
+				);
+			},
+		);
+	return escapeHTML(out)
+		.replace(/\*\*(?=\S)(.+?)\*\*/g, "<strong>$1</strong>")
+		.replace(/(^|\W)__(?=\S)(.+?)__(?=\W|$)/g, "$1<strong>$2</strong>")
+		.replace(/\*(?=\S)(.+?)\*/g, "<em>$1</em>")
+		.replace(/(^|\W)_(?=\S)(.+?)_(?=\W|$)/g, "$1<em>$2</em>")
+		.replace(/~~(?=\S)(.+?)~~/g, "<del>$1</del>");
+}
+
+/** Render one line of inline Markdown to HTML. */
+function renderInline(text: string): string {
+	const parked: string[] = [];
+	const restore = (html: string): string =>
+		html.replace(TOKEN, (_, i: string) => restore(parked[+i]));
+	return restore(inlineHTML(text, parked));
+}
+
+/**
+ * Render a Markdown string (see module docs for the supported subset) to an HTML string.
+ * The result contains no raw HTML from the source, but URLs are only resolved, not vetted:
+ * pass it through `sanitizeHTML` before inserting it.
+ */
+export function renderMarkdown(markdown: string): string {
+	const lines = markdown.replace(/\uE000/g, "").split(/\r\n?|\n/);
+	const out: string[] = [];
+	let paragraph: string[] = [];
+	// Reset inside the flush closures, which control flow analysis does not track
+	let list = null as ListBlock | null;
+
+	const flushParagraph = () => {
+		if (!paragraph.length) return;
+		const html = paragraph
+			.map((line, i) => {
+				const last = i === paragraph.length - 1;
+				const hardBreak = !last && /( {2,}|\\)$/.test(line);
+				const text = renderInline(line.replace(/( {2,}|\\)$/, "").trim());
+				return hardBreak ? `${text}<br>` : text;
+			})
+			.join("\n");
+		out.push(`<p>${html}</p>`);
+		paragraph = [];
+	};
+	const flushList = () => {
+		if (!list) return;
+		const start = list.tag === "ol" && list.start !== 1;
+		const items = list.items.map((item) => `<li>${renderInline(item)}</li>`);
+		out.push(
+			`<${list.tag}${start ? ` start="${list.start}"` : ""}>${items.join("")}</${list.tag}>`,
+		);
+		list = null;
+	};
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const fence = /^\s*(`{3,}|~{3,})\s*([\w+-]*)/.exec(line);
+		if (fence) {
+			flushParagraph();
+			flushList();
+			const code: string[] = [];
+			while (++i < lines.length && !lines[i].trim().startsWith(fence[1]))
+				code.push(lines[i]);
+			const lang = fence[2] ? ` class="language-${fence[2]}"` : "";
+			out.push(`<pre><code${lang}>${escapeHTML(code.join("\n"))}</code></pre>`);
+			continue;
+		}
+		if (!line.trim()) {
+			flushParagraph();
+			flushList();
+			continue;
+		}
+		const heading = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/.exec(line);
+		if (heading) {
+			flushParagraph();
+			flushList();
+			const level = heading[1].length;
+			out.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+			continue;
+		}
+		const item = /^ {0,3}(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/.exec(line);
+		if (item) {
+			flushParagraph();
+			const tag = item[1] ? "ul" : "ol";
+			if (list?.tag !== tag) flushList();
+			list ??= { tag, start: Number(item[2] ?? 1), items: [] };
+			list.items.push(item[3]);
+			continue;
+		}
+		// Indented lines continue the current list item
+		if (list && /^\s+\S/.test(line)) {
+			list.items[list.items.length - 1] += ` ${line.trim()}`;
+			continue;
+		}
+		flushList();
+		paragraph.push(line);
+	}
+	flushParagraph();
+	flushList();
+	return out.join("\n");
+}
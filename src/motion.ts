@@ -0,0 +1,53 @@
+/**
+ * Small helpers for the optional step transitions.
+ *
+ * Motion is driven by CSS (classes + transitions); these helpers only answer whether
+ * motion is allowed and wait for a transition to finish so step changes can be sequenced.
+ */
+
+/** True when the user asked the OS / browser to minimise animations. */
+export function prefersReducedMotion(): boolean {
+	if (typeof window === "undefined" || typeof window.matchMedia !== "function")
+		return false;
+	try {
+		return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Resolve once `el` fires `transitionend` / `animationend` (for itself, not a descendant),
+ * after `maxMs` as a safety net (transitions that never start fire no event), or when
+ * `signal` aborts. Never rejects.
+ */
+export function afterTransition(
+	el: Element,
+	maxMs: number,
+	signal?: AbortSignal,
+): Promise<void> {
+	if (maxMs <= 0 || signal?.aborted) return Promise.resolve();
+	return new Promise<void>((resolve) => {
+		const done = () => {
+			clearTimeout(timer);
+			el.removeEventListener("transitionend", onEnd);
+			el.removeEventListener("animationend", onEnd);
+			signal?.removeEventListener("abort", done);
+			resolve();
+		};
+		const onEnd = (e: Event) => {
+			if (e.target === el) done();
+		};
+		// Small slack so the timer does not cut off a transition that is about to end
+		const timer = setTimeout(done, maxMs + 50);
+		el.addEventListener("transitionend", onEnd);
+		el.addEventListener("animationend", onEnd);
+		signal?.addEventListener("abort", done, { once: true });
+	});
+}
+
+/** Run `cb` on the next animation frame (timeout fallback outside browsers). */
+export function nextFrame(cb: () => void): void {
+	if (typeof requestAnimationFrame === "function") requestAnimationFrame(cb);
+	else setTimeout(cb, 16);
+}
@@ -9,13 +9,22 @@
  *  - Manually start tours by id and reset persisted progress
  *
  * Persistence: if a tour uses `persistProgress + tourId` in its options, completion state
- * is stored in `localStorage` under `__walkthrough:<tourId>`. By default, `skipIfCompleted`
- * is true so previously completed tours won't auto start again. Session gating is
- * also supported via `oncePerSession` which uses `sessionStorage` to avoid repeating a tour
+ * is stored under `__walkthrough:<tourId>` in the tour's `storage` adapter (default: the global
+ * store, `localStorage` unless replaced). By default, `skipIfCompleted` is true so previously
+ * completed tours won't auto start again. Session gating is also supported via `oncePerSession`
+ * which uses the global session store (`sessionStorage` by default) to avoid repeating a tour
  * within the same tab session.
  */
 
 import { recordDebug } from "./debug";
+import type { LocalizedText } from "./i18n";
+import {
+	getDefaultSessionStorage,
+	getDefaultStorage,
+	readProgress,
+	removeProgress,
+	type WalkthroughStorage,
+} from "./storage";
 import type { WalkthroughOptions, WalkthroughStep } from "./walkthrough";
 import { startWalkthrough, WalkthroughChain } from "./walkthrough";
 
@@ -25,6 +34,8 @@ import { startWalkthrough, WalkthroughChain } from "./walkthrough";
  */
 export interface RegisteredTour {
 	id: string; // unique tour id (should match tourId if using persistence)
+	/** Human readable name (e.g. shown by the onboarding checklist). Plain or per locale. */
+	title?: LocalizedText;
 	/** Simple string exact match, prefix (ending with *), RegExp, or custom matcher function. */
 	match: string | RegExp | ((pathname: string) => boolean);
 	steps: WalkthroughStep[];
@@ -94,35 +105,52 @@ function matchPath(
 	return pattern(pathname);
 }
 
-function progressKey(tourId?: string) {
-	return tourId ? `__walkthrough:${tourId}` : undefined;
-}
+const sessionKey = (id: string) => `__wt_session_started:${id}`;
 
-/**
- * Check if a persisted tour id is marked completed in localStorage.
- * @param tourId - The `tourId` used when persisting progress.
- */
-export function isTourCompleted(tourId: string): boolean {
+async function startedThisSession(id: string): Promise<boolean> {
 	try {
-		const key = progressKey(tourId);
-		if (!key) return false;
-		const raw = localStorage.getItem(key);
-		if (!raw) return false;
-		const data = JSON.parse(raw);
-		return !!data?.completed;
+		return !!(await getDefaultSessionStorage().getItem(sessionKey(id)));
 	} catch {
 		return false;
 	}
 }
 
-/** Clear persisted progress for a single tour id. */
-export function clearTourProgress(tourId: string) {
+function markSessionStarted(id: string) {
 	try {
-		const key = progressKey(tourId);
-		if (key) localStorage.removeItem(key);
+		Promise.resolve(
+			getDefaultSessionStorage().setItem(sessionKey(id), "1"),
+		).catch(() => {});
 	} catch {}
 }
 
+/**
+ * Check if a persisted tour id is marked completed.
+ * @param tourId - The `tourId` used when persisting progress.
+ * @param storage - Store to read from. Defaults to the global progress store.
+ */
+export async function isTourCompleted(
+	tourId: string,
+	storage: WalkthroughStorage = getDefaultStorage(),
+): Promise<boolean> {
+	if (!tourId) return false;
+	const data = await readProgress(tourId, storage);
+	return !!data?.completed;
+}
+
+/** Progress id a registered tour persists under (`options.tourId`, else its `id`). */
+export function tourProgressId(tour: RegisteredTour): string {
+	return tour.options?.tourId || tour.id;
+}
+
+/** Clear persisted progress for a single tour id. */
+export function clearTourProgress(
+	tourId: string,
+	storage: WalkthroughStorage = getDefaultStorage(),
+): Promise<void> {
+	if (!tourId) return Promise.resolve();
+	return removeProgress(tourId, storage);
+}
+
 /** Options controlling auto start behaviour for a pathname match. */
 export interface StartMatchOptions {
 	pathname: string;
@@ -156,14 +184,13 @@ export async function startAutoMatches({
 			steps,
 			skipIfCompleted = true,
 		} = tour;
-		if (oncePerSession && sessionStorage.getItem(`__wt_session_started:${id}`))
-			continue;
+		if (oncePerSession && (await startedThisSession(id))) continue;
 		// Only skip previously completed tours when skipIfCompleted is true (default behavior)
 		if (skipIfCompleted) {
 			if (
 				options?.persistProgress &&
 				(options.tourId || id) &&
-				isTourCompleted(options.tourId || id)
+				(await isTourCompleted(options.tourId || id, options.storage))
 			) {
 				continue;
 			}
@@ -177,7 +204,7 @@ export async function startAutoMatches({
 		recordDebug("orchestrator", "start", id, { skipIfCompleted });
 		// Preserve existing tourId override if provided, else default to id for persistence
 		startWalkthrough(steps, { tourId: options?.tourId || id, ...options });
-		sessionStorage.setItem(`__wt_session_started:${id}`, "1");
+		markSessionStarted(id);
 		started.push(id);
 		if (firstOnly) break;
 	}
@@ -206,13 +233,12 @@ export async function chainAutoMatches(
 			options,
 			skipIfCompleted = true,
 		} = tour;
-		if (oncePerSession && sessionStorage.getItem(`__wt_session_started:${id}`))
-			continue;
+		if (oncePerSession && (await startedThisSession(id))) continue;
 		if (
 			skipIfCompleted &&
 			options?.persistProgress &&
 			options.tourId &&
-			isTourCompleted(options.tourId)
+			(await isTourCompleted(options.tourId, options.storage))
 		)
 			continue;
 		if (condition) {
@@ -226,10 +252,7 @@ export async function chainAutoMatches(
 	}
 	const sorted = [...prepared].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
 	const ids = sorted.map((s) => s.id);
-	// biome-ignore lint/suspicious/useIterableCallbackReturn: bruh
-	sorted.forEach((t) =>
-		sessionStorage.setItem(`__wt_session_started:${t.id}`, "1"),
-	);
+	for (const t of sorted) markSessionStarted(t.id);
 	const chain = new WalkthroughChain(
 		sorted.map((t) => ({
 			id: t.id,
@@ -253,10 +276,12 @@ export function startTourById(id: string) {
 
 /** Utility to bulk reset all persisted tours (useful in a dev panel). */
 /** Reset persisted progress for every registered tour (utility for dev tools). */
-export function resetAllTourProgress() {
-	registry.forEach((t) => {
-		if (t.options?.tourId || t.id) clearTourProgress(t.options?.tourId || t.id);
-	});
+export async function resetAllTourProgress(): Promise<void> {
+	await Promise.all(
+		registry.map((t) =>
+			clearTourProgress(t.options?.tourId || t.id, t.options?.storage),
+		),
+	);
 	recordDebug("orchestrator", "reset-progress", "all");
 }
 
@@ -0,0 +1,223 @@
+/**
+ * Pure tooltip placement maths (no DOM access) used by {@link Walkthrough}.
+ *
+ * Given the target rectangle, the tooltip size and the viewport size this module
+ * picks a side, aligns the tooltip along the cross axis, flips to the opposite /
+ * perpendicular sides when the preferred one does not fit, clamps into the viewport
+ * and reports where an arrow should point. Keeping it side‑effect free makes the
+ * behaviour unit testable without layout.
+ *
+ * Example:
+ * ```ts
+ * const pos = computePlacement(
+ *   { top: 100, left: 40, width: 80, height: 30 },
+ *   { width: 240, height: 120 },
+ *   { width: 1024, height: 768 },
+ *   { placement: 'right-start', offset: 10 },
+ * );
+ * // pos.top / pos.left -> tooltip coordinates, pos.placement -> side actually used
+ * ```
+ */
+
+/** Side of the target the tooltip is rendered on. */
+export type PlacementSide = "top" | "bottom" | "left" | "right";
+
+/**
+ * Cross‑axis alignment: omitted = centered, `start` / `end` align to the target edges.
+ * For `top` / `bottom` placements `start` is the left edge in LTR and the right edge in RTL.
+ */
+export type PlacementAlignment = "start" | "end";
+
+/** Requested placement. `auto` tries bottom, top, then the inline end side (right in LTR, left in RTL). */
+export type Placement =
+	| "auto"
+	| PlacementSide
+	| `${PlacementSide}-${PlacementAlignment}`;
+
+/** Minimal rectangle shape (compatible with `DOMRect`). */
+export interface PlacementRect {
+	top: number;
+	left: number;
+	width: number;
+	height: number;
+}
+
+/** Inline direction used to interpret `start` / `end` and the horizontal fallback order. */
+export type PlacementDirection = "ltr" | "rtl";
+
+/** Width / height pair (tooltip or viewport). */
+export interface PlacementSize {
+	width: number;
+	height: number;
+}
+
+/** Placement preferences. */
+export interface PlacementPreferences {
+	/** Preferred placement. Default: `auto`. */
+	placement?: Placement;
+	/** Gap (px) between target and tooltip. Default: 14. */
+	offset?: number;
+	/** Minimum distance (px) kept from the viewport edges. Default: 4. */
+	margin?: number;
+	/** Minimum distance (px) between the arrow tip and the tooltip corners. Default: 12. */
+	arrowPadding?: number;
+	/** Inline direction. Default: `ltr`. */
+	direction?: PlacementDirection;
+}
+
+/** Result of {@link computePlacement}. */
+export interface PlacementResult {
+	/** Tooltip top coordinate (viewport px). */
+	top: number;
+	/** Tooltip left coordinate (viewport px). */
+	left: number;
+	/** Placement actually used (after flipping), e.g. `top-start`. */
+	placement: Exclude<Placement, "auto">;
+	side: PlacementSide;
+	align?: PlacementAlignment;
+	/**
+	 * Arrow position relative to the tooltip box: `x` for top / bottom sides,
+	 * `y` for left / right sides. Points at the target center (clamped to the tooltip).
+	 */
+	arrow: { x?: number; y?: number };
+	/** False when no side fitted and the preferred side was clamped into the viewport. */
+	fits: boolean;
+}
+
+const AUTO_ORDER: PlacementSide[] = ["bottom", "top", "right", "left"];
+const AUTO_ORDER_RTL: PlacementSide[] = ["bottom", "top", "left", "right"];
+const OPPOSITE: Record<PlacementSide, PlacementSide> = {
+	top: "bottom",
+	bottom: "top",
+	left: "right",
+	right: "left",
+};
+
+/** The side opposite to `side` (e.g. the tooltip edge that faces the target). */
+export function oppositeSide(side: PlacementSide): PlacementSide {
+	return OPPOSITE[side];
+}
+
+/** Split a placement into side + alignment (`auto` yields no side). */
+export function parsePlacement(placement: Placement = "auto"): {
+	side?: PlacementSide;
+	align?: PlacementAlignment;
+} {
+	if (placement === "auto") return {};
+	const [side, align] = placement.split("-") as [
+		PlacementSide,
+		PlacementAlignment | undefined,
+	];
+	return { side, align };
+}
+
+/** Sides to try in order for a requested side (preferred, opposite, then perpendicular). */
+function sideOrder(
+	side?: PlacementSide,
+	direction: PlacementDirection = "ltr",
+): PlacementSide[] {
+	const auto = direction === "rtl" ? AUTO_ORDER_RTL : AUTO_ORDER;
+	if (!side) return auto;
+	const rest = auto.filter((s) => s !== side && s !== OPPOSITE[side]);
+	return [side, OPPOSITE[side], ...rest];
+}
+
+const clamp = (v: number, min: number, max: number) =>
+	Math.min(Math.max(v, min), Math.max(min, max));
+
+/**
+ * Compute tooltip coordinates for a target.
+ *
+ * @param target   Target rectangle in viewport coordinates (already including any highlight padding if desired).
+ * @param tooltip  Measured tooltip size.
+ * @param viewport Viewport size.
+ * @param prefs    Placement preferences.
+ */
+export function computePlacement(
+	target: PlacementRect,
+	tooltip: PlacementSize,
+	viewport: PlacementSize,
+	prefs: PlacementPreferences = {},
+): PlacementResult {
+	const offset = prefs.offset ?? 14;
+	const margin = prefs.margin ?? 4;
+	const arrowPadding = prefs.arrowPadding ?? 12;
+	const rtl = prefs.direction === "rtl";
+	const { side: preferred, align } = parsePlacement(prefs.placement);
+	const { width: w, height: h } = tooltip;
+	const right = target.left + target.width;
+	const bottom = target.top + target.height;
+
+	const cross = (side: PlacementSide) => {
+		if (side === "top" || side === "bottom") {
+			// Inline axis: start / end swap edges in RTL
+			if (align === (rtl ? "end" : "start")) return target.left;
+			if (align === (rtl ? "start" : "end")) return right - w;
+			return target.left + (target.width - w) / 2;
+		}
+		if (align === "start") return target.top;
+		if (align === "end") return bottom - h;
+		return target.top + (target.height - h) / 2;
+	};
+
+	const position = (side: PlacementSide) => {
+		switch (side) {
+			case "top":
+				return { top: target.top - offset - h, left: cross(side) };
+			case "bottom":
+				return { top: bottom + offset, left: cross(side) };
+			case "left":
+				return { top: cross(side), left: target.left - offset - w };
+			case "right":
+				return { top: cross(side), left: right + offset };
+		}
+	};
+
+	// Only the main axis decides whether a side fits; the cross axis is shifted into view.
+	const fitsMainAxis = (
+		side: PlacementSide,
+		pos: { top: number; left: number },
+	) =>
+		side === "top" || side === "bottom"
+			? pos.top >= margin && pos.top + h <= viewport.height - margin
+			: pos.left >= margin && pos.left + w <= viewport.width - margin;
+
+	const order = sideOrder(preferred, prefs.direction);
+	let side = order[0];
+	let fits = false;
+	for (const candidate of order) {
+		if (fitsMainAxis(candidate, position(candidate))) {
+			side = candidate;
+			fits = true;
+			break;
+		}
+	}
+	const raw = position(side);
+	const top = clamp(raw.top, margin, viewport.height - h - margin);
+	const left = clamp(raw.left, margin, viewport.width - w - margin);
+
+	const arrow: PlacementResult["arrow"] = {};
+	if (side === "top" || side === "bottom") {
+		arrow.x = clamp(
+			target.left + target.width / 2 - left,
+			arrowPadding,
+			w - arrowPadding,
+		);
+	} else {
+		arrow.y = clamp(
+			target.top + target.height / 2 - top,
+			arrowPadding,
+			h - arrowPadding,
+		);
+	}
+
+	return {
+		top,
+		left,
+		placement: align ? `${side}-${align}` : side,
+		side,
+		align,
+		arrow,
+		fits,
+	};
+}
@@ -0,0 +1,277 @@
+/**
+ * React bindings for the onboarding checklist.
+ *
+ * - `useOnboardingChecklist()` hook: live completion state for a list of registered tours
+ *   (re-renders when a tour finishes or is reset) plus a `launch` helper.
+ * - `OnboardingChecklistPanel`: ready made panel with the same markup / classes as the
+ *   vanilla `OnboardingChecklist` (default styles are injected unless `theme="unstyled"`).
+ */
+import type React from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+	type ChecklistItem,
+	type ChecklistState,
+	readChecklist,
+	watchChecklist,
+} from "./checklist";
+import {
+	formatLabel,
+	getLocale,
+	type LocalizedText,
+	localize,
+	onLocaleChange,
+	resolveLabels,
+	type WalkthroughLabels,
+} from "./i18n";
+import { startTourById } from "./orchestrator";
+import {
+	getDefaultStorage,
+	readChecklistState,
+	type StoredChecklist,
+	type WalkthroughStorage,
+	writeChecklistState,
+} from "./storage";
+import { injectDefaultStyles, type Walkthrough } from "./walkthrough";
+
+/** Value returned by {@link useOnboardingChecklist}. */
+export interface UseOnboardingChecklistResult {
+	/** Completion state (null until the first read resolves). */
+	state: ChecklistState | null;
+	/** Start a listed tour via `startTourById`. */
+	launch: (id: string) => Walkthrough;
+	/** Re-read completion from storage. */
+	refresh: () => Promise<void>;
+	/** Locale used for labels (pinned or the global one). */
+	locale: string;
+}
+
+/**
+ * Track completion of `tours` (registered tour ids or checklist items).
+ *
+ * Usage:
+ * ```tsx
+ * const { state, launch } = useOnboardingChecklist(['profile', 'billing']);
+ * ```
+ */
+export function useOnboardingChecklist(
+	tours: ChecklistItem[],
+	options: { locale?: string } = {},
+): UseOnboardingChecklistResult {
+	const [state, setState] = useState<ChecklistState | null>(null);
+	const [globalLocale, setGlobalLocale] = useState(getLocale);
+	const locale = options.locale ?? globalLocale;
+	const stateRef = useRef<ChecklistState | null>(null);
+	const toursRef = useRef(tours);
+	toursRef.current = tours;
+	// Inline arrays are new on every render; compare by content
+	const toursKey = JSON.stringify(tours);
+
+	const apply = useCallback((next: ChecklistState) => {
+		stateRef.current = next;
+		setState(next);
+	}, []);
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: toursKey stands in for the tours array
+	const refresh = useCallback(async () => {
+		apply(await readChecklist(toursRef.current, locale));
+	}, [apply, locale, toursKey]);
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: toursKey stands in for the tours array
+	useEffect(() => {
+		let cancelled = false;
+		readChecklist(toursRef.current, locale).then((next) => {
+			if (!cancelled) apply(next);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [apply, locale, toursKey]);
+
+	useEffect(() => watchChecklist(() => stateRef.current, apply), [apply]);
+
+	useEffect(() => {
+		if (options.locale) return;
+		return onLocaleChange(setGlobalLocale);
+	}, [options.locale]);
+
+	const launch = useCallback((id: string) => startTourById(id), []);
+
+	return { state, launch, refresh, locale };
+}
+
+/** Props for {@link OnboardingChecklistPanel}. */
+export interface OnboardingChecklistPanelProps {
+	/** Registered tours to list (in display order). */
+	tours: ChecklistItem[];
+	/** Heading. Default: the `checklist` label ("Get started"). */
+	title?: LocalizedText;
+	/** Persist minimized / dismissed state under `__walkthrough_checklist:<id>`. */
+	id?: string;
+	/** Storage adapter for the UI state. Default: the global progress store. */
+	storage?: WalkthroughStorage;
+	/** Start minimized (unless a persisted state says otherwise). Default: false. */
+	minimized?: boolean;
+	/** Render as a fixed card in the bottom corner instead of inline. Default: false. */
+	floating?: boolean;
+	/** Default: 'default' (injects the built-in styles). */
+	theme?: "default" | "unstyled";
+	/** Override built‑in strings. */
+	labels?: Partial<WalkthroughLabels>;
+	/** Pin to a locale instead of following the global `setLocale()`. */
+	locale?: string;
+	className?: string;
+	/** Called after a tour was started from the list. */
+	onLaunch?: (id: string, walkthrough: Walkthrough) => void;
+	/** Called when the user closes the panel. */
+	onDismiss?: () => void;
+}
+
+/**
+ * Onboarding checklist panel. Renders nothing once dismissed.
+ *
+ * Usage:
+ * ```tsx
+ * <OnboardingChecklistPanel id="main" tours={['profile', 'billing', 'invite']} floating />
+ * ```
+ */
+export function OnboardingChecklistPanel({
+	tours,
+	title,
+	id,
+	storage,
+	minimized: initiallyMinimized = false,
+	floating = false,
+	theme = "default",
+	labels: labelOverrides,
+	locale: pinnedLocale,
+	className,
+	onLaunch,
+	onDismiss,
+}: OnboardingChecklistPanelProps) {
+	const { state, launch, locale } = useOnboardingChecklist(tours, {
+		locale: pinnedLocale,
+	});
+	const [ui, setUi] = useState<StoredChecklist | null>(
+		id ? null : { minimized: initiallyMinimized },
+	);
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: only (re)load for a new id / store
+	useEffect(() => {
+		if (!id) return;
+		let cancelled = false;
+		readChecklistState(id, storage ?? getDefaultStorage()).then((stored) => {
+			if (!cancelled) setUi({ minimized: initiallyMinimized, ...stored });
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [id, storage]);
+
+	useEffect(() => {
+		if (theme === "default") injectDefaultStyles();
+	}, [theme]);
+
+	const update = (patch: StoredChecklist) => {
+		const next = { ...ui, ...patch };
+		setUi(next);
+		if (id) void writeChecklistState(id, next, storage ?? getDefaultStorage());
+	};
+
+	if (!state || !ui || ui.dismissed) return null;
+	const labels = resolveLabels(locale, labelOverrides);
+	const minimized = !!ui.minimized;
+	const style: React.CSSProperties | undefined = floating
+		? { position: "fixed", bottom: 16, insetInlineEnd: 16 }
+		: undefined;
+	const classes = [
+		"wt-checklist",
+		floating && "wt-checklist-floating",
+		minimized && "wt-checklist-minimized",
+		state.total > 0 &&
+			state.completed === state.total &&
+			"wt-checklist-complete",
+		className,
+	]
+		.filter(Boolean)
+		.join(" ");
+
+	return (
+		<div className={classes} style={style}>
+			<div className="wt-checklist-header">
+				<h3>{localize(title, locale) ?? labels.checklist}</h3>
+				<button
+					type="button"
+					className="wt-checklist-toggle"
+					aria-label={minimized ? labels.expand : labels.minimize}
+					aria-expanded={!minimized}
+					onClick={() => update({ minimized: !minimized })}
+				>
+					{minimized ? "+" : "–"}
+				</button>
+				<button
+					type="button"
+					className="wt-checklist-close"
+					aria-label={labels.close}
+					onClick={() => {
+						update({ dismissed: true });
+						onDismiss?.();
+					}}
+				>
+					×
+				</button>
+			</div>
+			<div className="wt-checklist-progress">
+				<span>
+					{formatLabel(labels.checklistProgress, {
+						percent: state.percent,
+						completed: state.completed,
+						total: state.total,
+					})}
+				</span>
+				<div
+					className="wt-progress-bar"
+					role="progressbar"
+					aria-valuemin={0}
+					aria-valuemax={100}
+					aria-valuenow={state.percent}
+				>
+					<div
+						className="wt-progress-fill"
+						style={{ width: `${state.percent}%` }}
+					/>
+				</div>
+			</div>
+			{!minimized && (
+				<ul className="wt-checklist-items">
+					{state.items.map((entry) => (
+						<li
+							key={entry.id}
+							className={
+								entry.completed
+									? "wt-checklist-item wt-checklist-done"
+									: "wt-checklist-item"
+							}
+							data-tour-id={entry.id}
+						>
+							<button
+								type="button"
+								className="wt-checklist-launch"
+								disabled={!entry.registered}
+								aria-pressed={entry.completed}
+								onClick={() => onLaunch?.(entry.id, launch(entry.id))}
+							>
+								<span className="wt-checklist-check" aria-hidden="true">
+									{entry.completed ? "✓" : ""}
+								</span>
+								<span className="wt-checklist-label">{entry.label}</span>
+							</button>
+							{entry.description && (
+								<p className="wt-checklist-description">{entry.description}</p>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
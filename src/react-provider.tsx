@@ -4,7 +4,7 @@
  * Provides:
  *  - `WalkthroughProvider` to supply context with start / chain helpers.
  *  - `useWalkthrough()` hook exposing active state, current step index, and the raw instance.
- *  - Thin wrappers that forward lifecycle callbacks while updating internal state.
+ *  - Thin wrappers that subscribe to instance events to keep React state in sync.
  *
  * This layer deliberately keeps API surface minimal so the underlying `Walkthrough`
  * class is still directly accessible when advanced customization is required.
@@ -23,11 +23,7 @@ import type {
 	WalkthroughOptions,
 	WalkthroughStep,
 } from "./walkthrough";
-import {
-	startWalkthrough,
-	type Walkthrough,
-	WalkthroughChain,
-} from "./walkthrough";
+import { Walkthrough, WalkthroughChain } from "./walkthrough";
 
 /**
  * Shape of the React context value exposed by the provider + hook.
@@ -79,27 +75,20 @@ export function WalkthroughProvider({
   const start = useCallback(
     (steps: WalkthroughStep[], options?: WalkthroughOptions) => {
       instRef.current?.destroy();
-      const wt = startWalkthrough(steps, {
-        ...(options || {}),
-        onStepChange: (i) => {
-          setCurrentIndex(i);
-          options?.onStepChange?.(i);
-        },
-        onFinish: () => {
-          options?.onFinish?.();
-          instRef.current = null;
-          setInstance(null);
-          setCurrentIndex(null);
-        },
-        onSkip: (r) => {
-          options?.onSkip?.(r);
-          instRef.current = null;
-          setInstance(null);
-          setCurrentIndex(null);
-        },
-      });
+      const wt = new Walkthrough(steps, options);
+      const release = () => {
+        if (instRef.current !== wt) return;
+        instRef.current = null;
+        setInstance(null);
+        setCurrentIndex(null);
+      };
+      wt.on("step:enter", ({ index }) => setCurrentIndex(index));
+      wt.on("finish", release);
+      wt.on("skip", release);
+      wt.on("destroy", release);
       instRef.current = wt;
       setInstance(wt);
+      wt.start();
       return wt;
     },
     [],
@@ -115,13 +104,6 @@ export function WalkthroughProvider({
             setCurrentIndex(i);
             t.options?.onStepChange?.(i);
           },
-          onFinish: () => {
-            t.options?.onFinish?.();
-            // chain advances automatically
-          },
-          onSkip: (r?: string) => {
-            t.options?.onSkip?.(r);
-          },
         },
       })),
     );
@@ -0,0 +1,372 @@
+/**
+ * Pluggable persistence for tour progress and session gating.
+ *
+ * Every read / write of walkthrough state goes through a {@link WalkthroughStorage}
+ * adapter. Adapters mirror the Web Storage API (string keys + string values) but each
+ * method may return a promise, so remote or IndexedDB backed stores work the same way
+ * as `localStorage`.
+ *
+ * Two global adapters are kept:
+ *  - the *progress* store (default: `localStorage`) used for `__walkthrough:<tourId>` records
+ *  - the *session* store (default: `sessionStorage`) used for `__wt_session_started:<id>` flags
+ *
+ * Either can be replaced globally ({@link setDefaultStorage} / {@link setDefaultSessionStorage})
+ * or per walkthrough through `WalkthroughOptions.storage`.
+ *
+ * Example (per user account persistence):
+ * ```ts
+ * setDefaultStorage({
+ *   getItem: (k) => api.get(`/onboarding/${userId}/${k}`),
+ *   setItem: (k, v) => api.put(`/onboarding/${userId}/${k}`, v),
+ *   removeItem: (k) => api.delete(`/onboarding/${userId}/${k}`),
+ * });
+ * ```
+ */
+
+/** A value that may or may not be wrapped in a promise. */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Minimal key/value contract used for persistence. Values are serialised JSON strings.
+ * Implementations may be synchronous or asynchronous.
+ */
+export interface WalkthroughStorage {
+	getItem(key: string): MaybePromise<string | null>;
+	setItem(key: string, value: string): MaybePromise<void>;
+	removeItem(key: string): MaybePromise<void>;
+}
+
+/** Shape of the record persisted for a tour under `__walkthrough:<tourId>`. */
+export interface StoredProgress {
+	index?: number;
+	completed: boolean;
+	ts?: number;
+	/** Visited step indices (oldest first) so Back keeps working after a resume. */
+	history?: number[];
+}
+
+/**
+ * Wrap a Web Storage area resolved lazily (so SSR imports do not touch `window`).
+ * Access errors (private mode, disabled storage) are swallowed and treated as empty.
+ */
+function webStorage(area: () => Storage | undefined): WalkthroughStorage {
+	return {
+		getItem(key) {
+			try {
+				return area()?.getItem(key) ?? null;
+			} catch {
+				return null;
+			}
+		},
+		setItem(key, value) {
+			try {
+				area()?.setItem(key, value);
+			} catch {}
+		},
+		removeItem(key) {
+			try {
+				area()?.removeItem(key);
+			} catch {}
+		},
+	};
+}
+
+/** Adapter backed by `window.localStorage` (default progress store). */
+export const localStorageAdapter: WalkthroughStorage = webStorage(() =>
+	typeof localStorage !== "undefined" ? localStorage : undefined,
+);
+
+/** Adapter backed by `window.sessionStorage` (default session store). */
+export const sessionStorageAdapter: WalkthroughStorage = webStorage(() =>
+	typeof sessionStorage !== "undefined" ? sessionStorage : undefined,
+);
+
+/**
+ * Create an isolated in‑memory store. Useful for tests and for environments
+ * without Web Storage. Optionally seeded with initial entries.
+ */
+export function createMemoryStorage(
+	initial: Record<string, string> = {},
+): WalkthroughStorage & { clear(): void } {
+	const map = new Map<string, string>(Object.entries(initial));
+	return {
+		getItem: (key) => map.get(key) ?? null,
+		setItem: (key, value) => {
+			map.set(key, value);
+		},
+		removeItem: (key) => {
+			map.delete(key);
+		},
+		clear: () => map.clear(),
+	};
+}
+
+/** Options for {@link createIndexedDBStorage}. */
+export interface IndexedDBStorageOptions {
+	/** Database name. Default: `just-a-walkthrough`. */
+	dbName?: string;
+	/** Object store name. Default: `progress`. */
+	storeName?: string;
+}
+
+/**
+ * Create an asynchronous store backed by IndexedDB. The database is opened lazily on
+ * first access. Operations reject when IndexedDB is unavailable; the library treats a
+ * rejected read as "no stored progress".
+ */
+export function createIndexedDBStorage(
+	options: IndexedDBStorageOptions = {},
+): WalkthroughStorage {
+	const dbName = options.dbName ?? "just-a-walkthrough";
+	const storeName = options.storeName ?? "progress";
+	let dbPromise: Promise<IDBDatabase> | undefined;
+
+	const open = () => {
+		if (!dbPromise) {
+			dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+				if (typeof indexedDB === "undefined") {
+					reject(new Error("IndexedDB is not available"));
+					return;
+				}
+				const req = indexedDB.open(dbName, 1);
+				req.onupgradeneeded = () => {
+					if (!req.result.objectStoreNames.contains(storeName))
+						req.result.createObjectStore(storeName);
+				};
+				req.onsuccess = () => resolve(req.result);
+				req.onerror = () => reject(req.error);
+			});
+			// Allow a later call to retry after a failed open
+			dbPromise.catch(() => {
+				dbPromise = undefined;
+			});
+		}
+		return dbPromise;
+	};
+
+	const run = async <T>(
+		mode: IDBTransactionMode,
+		op: (store: IDBObjectStore) => IDBRequest,
+	): Promise<T> => {
+		const db = await open();
+		return new Promise<T>((resolve, reject) => {
+			const req = op(db.transaction(storeName, mode).objectStore(storeName));
+			req.onsuccess = () => resolve(req.result as T);
+			req.onerror = () => reject(req.error);
+		});
+	};
+
+	return {
+		async getItem(key) {
+			const v = await run<unknown>("readonly", (s) => s.get(key));
+			return typeof v === "string" ? v : null;
+		},
+		async setItem(key, value) {
+			await run("readwrite", (s) => s.put(value, key));
+		},
+		async removeItem(key) {
+			await run("readwrite", (s) => s.delete(key));
+		},
+	};
+}
+
+let defaultStorage: WalkthroughStorage = localStorageAdapter;
+let defaultSessionStorage: WalkthroughStorage = sessionStorageAdapter;
+
+/**
+ * Replace the global progress store used when a walkthrough has no `storage` option
+ * (and by orchestrator helpers such as `isTourCompleted`). Pass `null` to restore `localStorage`.
+ */
+export function setDefaultStorage(storage: WalkthroughStorage | null) {
+	defaultStorage = storage ?? localStorageAdapter;
+}
+
+/** Current global progress store. */
+export function getDefaultStorage(): WalkthroughStorage {
+	return defaultStorage;
+}
+
+/**
+ * Replace the global store used for `oncePerSession` flags. Pass `null` to restore `sessionStorage`.
+ */
+export function setDefaultSessionStorage(storage: WalkthroughStorage | null) {
+	defaultSessionStorage = storage ?? sessionStorageAdapter;
+}
+
+/** Current global session store. */
+export function getDefaultSessionStorage(): WalkthroughStorage {
+	return defaultSessionStorage;
+}
+
+/** Listener for {@link onProgressChange}: `progress` is null when the record was removed. */
+export type ProgressListener = (
+	tourId: string,
+	progress: StoredProgress | null,
+) => void;
+
+const progressListeners = new Set<ProgressListener>();
+
+/**
+ * Subscribe to progress writes / removals made through this module (any store), e.g. to
+ * refresh completion ticks when a tour finishes. Returns an unsubscribe function.
+ */
+export function onProgressChange(listener: ProgressListener): () => void {
+	progressListeners.add(listener);
+	return () => progressListeners.delete(listener);
+}
+
+function notifyProgress(tourId: string, progress: StoredProgress | null) {
+	for (const listener of [...progressListeners]) {
+		try {
+			listener(tourId, progress);
+		} catch {}
+	}
+}
+
+/** Build the persistence key for a tour id. */
+export function progressKey(tourId: string) {
+	return `__walkthrough:${tourId}`;
+}
+
+/**
+ * Read and parse the stored progress record for a tour.
+ * Resolves `null` when nothing is stored, the record is malformed, or the store fails.
+ */
+export async function readProgress(
+	tourId: string,
+	storage: WalkthroughStorage = defaultStorage,
+): Promise<StoredProgress | null> {
+	try {
+		const raw = await storage.getItem(progressKey(tourId));
+		if (!raw) return null;
+		const data = JSON.parse(raw);
+		if (!data || typeof data !== "object") return null;
+		return {
+			index: typeof data.index === "number" ? data.index : undefined,
+			completed: !!data.completed,
+			ts: typeof data.ts === "number" ? data.ts : undefined,
+			history: Array.isArray(data.history)
+				? data.history.filter((n: unknown) => typeof n === "number")
+				: undefined,
+		};
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Serialise and store a progress record. The write is started synchronously so
+ * synchronous stores (e.g. `localStorage`) are updated before this returns.
+ */
+export function writeProgress(
+	tourId: string,
+	progress: StoredProgress,
+	storage: WalkthroughStorage = defaultStorage,
+): Promise<void> {
+	try {
+		return Promise.resolve(
+			storage.setItem(progressKey(tourId), JSON.stringify(progress)),
+		).catch(() => {});
+	} catch {
+		return Promise.resolve();
+	} finally {
+		notifyProgress(tourId, progress);
+	}
+}
+
+/** Remove the stored progress record for a tour (same synchronous start semantics as {@link writeProgress}). */
+export function removeProgress(
+	tourId: string,
+	storage: WalkthroughStorage = defaultStorage,
+): Promise<void> {
+	try {
+		return Promise.resolve(storage.removeItem(progressKey(tourId))).catch(
+			() => {},
+		);
+	} catch {
+		return Promise.resolve();
+	} finally {
+		notifyProgress(tourId, null);
+	}
+}
+
+/** Build the persistence key for a hints layer's dismissed hint ids. */
+export function hintsKey(layerId: string) {
+	return `__walkthrough_hints:${layerId}`;
+}
+
+/**
+ * Read the ids of dismissed hints for a layer.
+ * Resolves an empty list when nothing is stored, the record is malformed, or the store fails.
+ */
+export async function readDismissedHints(
+	layerId: string,
+	storage: WalkthroughStorage = defaultStorage,
+): Promise<string[]> {
+	try {
+		const raw = await storage.getItem(hintsKey(layerId));
+		const data = raw ? JSON.parse(raw) : [];
+		return Array.isArray(data)
+			? data.filter((id: unknown): id is string => typeof id === "string")
+			: [];
+	} catch {
+		return [];
+	}
+}
+
+/** Store the dismissed hint ids for a layer (same synchronous start semantics as {@link writeProgress}). */
+export function writeDismissedHints(
+	layerId: string,
+	ids: string[],
+	storage: WalkthroughStorage = defaultStorage,
+): Promise<void> {
+	try {
+		const write = ids.length
+			? storage.setItem(hintsKey(layerId), JSON.stringify(ids))
+			: storage.removeItem(hintsKey(layerId));
+		return Promise.resolve(write).catch(() => {});
+	} catch {
+		return Promise.resolve();
+	}
+}
+
+/** UI state persisted for an onboarding checklist. */
+export interface StoredChecklist {
+	minimized?: boolean;
+	dismissed?: boolean;
+}
+
+/** Build the persistence key for an onboarding checklist's UI state. */
+export function checklistKey(checklistId: string) {
+	return `__walkthrough_checklist:${checklistId}`;
+}
+
+/** Read a checklist's UI state (empty when nothing is stored, malformed, or the store fails). */
+export async function readChecklistState(
+	checklistId: string,
+	storage: WalkthroughStorage = defaultStorage,
+): Promise<StoredChecklist> {
+	try {
+		const raw = await storage.getItem(checklistKey(checklistId));
+		const data = raw ? JSON.parse(raw) : null;
+		if (!data || typeof data !== "object") return {};
+		return { minimized: !!data.minimized, dismissed: !!data.dismissed };
+	} catch {
+		return {};
+	}
+}
+
+/** Store a checklist's UI state (same synchronous start semantics as {@link writeProgress}). */
+export function writeChecklistState(
+	checklistId: string,
+	state: StoredChecklist,
+	storage: WalkthroughStorage = defaultStorage,
+): Promise<void> {
+	try {
+		return Promise.resolve(
+			storage.setItem(checklistKey(checklistId), JSON.stringify(state)),
+		).catch(() => {});
+	} catch {
+		return Promise.resolve();
+	}
+}
@@ -0,0 +1,263 @@
+/**
+ * Cancellable "wait until a condition holds" primitive used to resolve step targets.
+ *
+ * Two strategies:
+ *  - `observe` (default): re‑check whenever the document mutates (MutationObserver) — no
+ *    busy polling while nothing changes. `pollFallback` adds a periodic re‑check for
+ *    conditions the observer cannot see (open shadow roots, iframes, layout‑only changes).
+ *  - `poll`: re‑check every `interval` ms (legacy behaviour).
+ *
+ * Aborting the `signal` stops observers / timers immediately and rejects with the
+ * signal's reason, so callers never act on a stale result.
+ *
+ * Also home to the target readiness checks ({@link TargetState}): visibility and
+ * bounding box stability.
+ */
+
+/** How {@link waitFor} re‑evaluates its condition. */
+export type WaitStrategy = "observe" | "poll";
+
+export interface WaitOptions {
+	/** Give up after this many ms and resolve `null`. 0 = single synchronous check. Default: 5000. */
+	timeout?: number;
+	/** Cancels the wait (rejects with `signal.reason`). */
+	signal?: AbortSignal;
+	/** Default: `observe` (falls back to `poll` when MutationObserver is unavailable). */
+	strategy?: WaitStrategy;
+	/** Poll interval (ms) for `poll` and `pollFallback`. Default: 120. */
+	interval?: number;
+	/** With `observe`, additionally re‑check every `interval` ms. Default: false. */
+	pollFallback?: boolean;
+}
+
+/** Error used when a signal is aborted without an explicit reason. */
+function abortError(signal: AbortSignal): unknown {
+	if (signal.reason !== undefined) return signal.reason;
+	const err = new Error("The wait was aborted");
+	err.name = "AbortError";
+	return err;
+}
+
+/** True when `error` came from an aborted wait (`AbortError` / DOMException). */
+export function isAbortError(error: unknown): boolean {
+	return (
+		typeof error === "object" &&
+		error !== null &&
+		(error as { name?: unknown }).name === "AbortError"
+	);
+}
+
+/**
+ * Resolve with the first truthy value returned by `check`, or `null` on timeout.
+ * A throwing `check` counts as "not yet".
+ */
+export function waitFor<T>(
+	check: () => T | null | undefined | false,
+	options: WaitOptions = {},
+): Promise<T | null> {
+	const { signal, pollFallback = false } = options;
+	const timeout = Math.max(0, options.timeout ?? 5000);
+	const interval = Math.max(1, options.interval ?? 120);
+	const attemptOnce = (): T | null => {
+		try {
+			return check() || null;
+		} catch {
+			return null;
+		}
+	};
+	if (signal?.aborted) return Promise.reject(abortError(signal));
+	const first = attemptOnce();
+	if (first || timeout === 0) return Promise.resolve(first);
+	const observe =
+		(options.strategy ?? "observe") === "observe" &&
+		typeof MutationObserver !== "undefined" &&
+		typeof document !== "undefined";
+
+	return new Promise<T | null>((resolve, reject) => {
+		let observer: MutationObserver | undefined;
+		let pollId: ReturnType<typeof setInterval> | undefined;
+		const finish = () => {
+			observer?.disconnect();
+			if (pollId !== undefined) clearInterval(pollId);
+			clearTimeout(timeoutId);
+			signal?.removeEventListener("abort", onAbort);
+		};
+		const attempt = () => {
+			const value = attemptOnce();
+			if (!value) return;
+			finish();
+			resolve(value);
+		};
+		const onAbort = () => {
+			finish();
+			reject(abortError(signal as AbortSignal));
+		};
+		const timeoutId = setTimeout(() => {
+			finish();
+			resolve(null);
+		}, timeout);
+		signal?.addEventListener("abort", onAbort, { once: true });
+		if (observe) {
+			observer = new MutationObserver(attempt);
+			observer.observe(document, {
+				childList: true,
+				subtree: true,
+				attributes: true,
+			});
+			if (pollFallback) pollId = setInterval(attempt, interval);
+		} else {
+			pollId = setInterval(attempt, interval);
+		}
+	});
+}
+
+/**
+ * Readiness a step target must reach before the step renders:
+ *  - `attached`: present in the DOM (legacy behaviour)
+ *  - `visible`: also rendered with a non‑zero box, not `display:none` / `visibility:hidden`,
+ *    not inside a closed `<details>` and not covered by another element at its center
+ *  - `stable`: visible and its bounding box stopped moving (e.g. after a CSS transition)
+ */
+export type TargetState = "attached" | "visible" | "stable";
+
+/** Elements that belong to the walkthrough overlay and must not count as "covering". */
+const OVERLAY_SELECTOR = ".wt-root";
+
+/** True if `node` is (inside) the root of a walkthrough or hints layer overlay. */
+function inOverlay(node: Node): boolean {
+	const el = node instanceof Element ? node : node.parentElement;
+	return !!el?.closest(OVERLAY_SELECTOR);
+}
+
+/**
+ * True for a mutation caused by an overlay itself: a change inside any tour / hints layer root
+ * (positioning writes) or a root being added, moved or removed. Observers that reposition on
+ * page mutations must skip these, or two overlays on one page re‑trigger each other forever.
+ */
+export function isOverlayMutation(record: MutationRecord): boolean {
+	if (inOverlay(record.target)) return true;
+	if (record.type !== "childList") return false;
+	const nodes = [...record.addedNodes, ...record.removedNodes];
+	return nodes.length > 0 && nodes.every(inOverlay);
+}
+
+/** True if `el` is hidden by a closed `<details>` ancestor (its `<summary>` stays visible). */
+function inClosedDetails(el: Element): boolean {
+	let node: Element | null = el;
+	while (node) {
+		const details: HTMLDetailsElement | null =
+			node.parentElement?.closest("details") ?? null;
+		if (!details) return false;
+		const summary = details.querySelector(":scope > summary");
+		if (!details.open && !summary?.contains(node)) return true;
+		node = details;
+	}
+	return false;
+}
+
+/** True when the element at the center of `el` (ignoring the overlay) is not `el` or related to it. */
+function isCovered(el: Element, rect: DOMRect): boolean {
+	const root = el.getRootNode() as Document | ShadowRoot;
+	if (typeof root.elementsFromPoint !== "function") return false;
+	const view = el.ownerDocument.defaultView;
+	const x = rect.left + rect.width / 2;
+	const y = rect.top + rect.height / 2;
+	// Off screen targets are scrolled into view later; hit testing says nothing about them
+	if (!view || x < 0 || y < 0 || x > view.innerWidth || y > view.innerHeight)
+		return false;
+	const hit = root
+		.elementsFromPoint(x, y)
+		.find((h) => !h.closest(OVERLAY_SELECTOR));
+	if (!hit) return false;
+	return !(hit === el || el.contains(hit) || hit.contains(el));
+}
+
+/** Check whether `el` is actually visible to the user (see {@link TargetState}). */
+export function isTargetVisible(el: Element): boolean {
+	if (!el.isConnected) return false;
+	const rect = el.getBoundingClientRect();
+	if (rect.width <= 0 || rect.height <= 0) return false;
+	const checkVisibility = (
+		el as Element & {
+			checkVisibility?: (opts?: { visibilityProperty?: boolean }) => boolean;
+		}
+	).checkVisibility;
+	if (typeof checkVisibility === "function") {
+		const opts = { checkVisibilityCSS: true, visibilityProperty: true };
+		if (!checkVisibility.call(el, opts)) return false;
+	} else {
+		const view = el.ownerDocument.defaultView;
+		const style = view?.getComputedStyle(el);
+		if (style?.visibility === "hidden" || style?.display === "none")
+			return false;
+		for (let p = el.parentElement; p; p = p.parentElement)
+			if (view?.getComputedStyle(p).display === "none") return false;
+	}
+	if (inClosedDetails(el)) return false;
+	return !isCovered(el, rect);
+}
+
+/** True when `el` satisfies `state` (the `stable` part is checked by {@link waitForStable}). */
+export function meetsTargetState(el: Element, state: TargetState): boolean {
+	return state === "attached" ? el.isConnected : isTargetVisible(el);
+}
+
+/**
+ * Resolve `true` once the bounding boxes of `elements` are unchanged for `frames`
+ * consecutive animation frames, `false` on timeout. Rejects when `signal` aborts.
+ */
+export function waitForStable(
+	elements: Element[],
+	options: { timeout?: number; signal?: AbortSignal; frames?: number } = {},
+): Promise<boolean> {
+	const { signal } = options;
+	const frames = Math.max(1, options.frames ?? 2);
+	const timeout = Math.max(0, options.timeout ?? 1000);
+	if (signal?.aborted) return Promise.reject(abortError(signal));
+	const sample = () =>
+		elements
+			.map((el) => {
+				const r = el.getBoundingClientRect();
+				return `${r.left},${r.top},${r.width},${r.height}`;
+			})
+			.join("|");
+	const nextFrame = (cb: () => void): (() => void) => {
+		if (typeof requestAnimationFrame === "function") {
+			const id = requestAnimationFrame(cb);
+			return () => cancelAnimationFrame(id);
+		}
+		const id = setTimeout(cb, 16);
+		return () => clearTimeout(id);
+	};
+	return new Promise<boolean>((resolve, reject) => {
+		let previous = sample();
+		let unchanged = 0;
+		let cancelFrame: () => void = () => {};
+		const finish = () => {
+			cancelFrame();
+			clearTimeout(timeoutId);
+			signal?.removeEventListener("abort", onAbort);
+		};
+		const onAbort = () => {
+			finish();
+			reject(abortError(signal as AbortSignal));
+		};
+		const timeoutId = setTimeout(() => {
+			finish();
+			resolve(false);
+		}, timeout);
+		const tick = () => {
+			const current = sample();
+			unchanged = current === previous ? unchanged + 1 : 0;
+			previous = current;
+			if (unchanged >= frames) {
+				finish();
+				resolve(true);
+				return;
+			}
+			cancelFrame = nextFrame(tick);
+		};
+		signal?.addEventListener("abort", onAbort, { once: true });
+		cancelFrame = nextFrame(tick);
+	});
+}
@@ -6,20 +6,31 @@
  *  - Keep DOM manipulation explicit & predictable while allowing customization hooks for styling and tooltip content.
  *
  * Built‑in capabilities:
- *  - Darkens the screen and creates a highlight ring around a target element.
+ *  - Darkens the screen and creates a highlight ring around a target element (or shows a centered "modal" step when no target is given).
  *  - Renders a tooltip (themeable or fully custom) with navigation controls (Back, Next, Skip, Done).
- *  - Keyboard support (Esc exits; Enter / ArrowRight advances; ArrowLeft goes back).
+ *  - Keyboard support (Esc exits; Enter / ArrowRight advances; ArrowLeft goes back — mirrored in RTL), remappable via `keymap`; ignored while typing in fields.
  *  - Auto scrolls target into view with configurable smooth behavior.
  *  - Responsive repositioning on window resize, scroll, DOM mutations (MutationObserver) & optional re‑append to top of <body> (`alwaysOnTop`).
  *  - Step level hooks (`beforeStep`, `afterStep`) and lifecycle callbacks (`onStepChange`, `onSkip`, `onFinish`).
- *  - Polls for elements that are not yet in the DOM (useful for lazy loading, portals, transitions). Polling can be disabled (0ms wait) for immediate fail / skip.
- *  - Optional persistence of progress (`persistProgress` + `tourId`) with resume semantics (`resume`).
+ *  - Branching flows: step `id`s, conditional steps (`when`), computed `next` targets and choice buttons.
+ *  - Navigation by step id (`goTo`) with a visited‑step history so Back returns to the step the user actually saw.
+ *  - Awaitable outcome (`await wt.run()` / `wt.done`) for sequencing tours with other async app logic.
+ *  - Typed multi‑subscriber events (`wt.on('step:enter', ...)`) so several consumers can observe one instance.
+ *  - Waits for elements that are not yet in the DOM (MutationObserver, or polling via `waitStrategy: 'poll'`; useful for lazy loading, portals, transitions). Waits are cancelled on navigation / teardown; 0ms wait gives immediate fail / skip.
+ *  - Optional persistence of progress (`persistProgress` + `tourId`) with resume semantics (`resume`) through a pluggable (optionally async) storage adapter.
  *  - Focus trapping & accessibility (ARIA live region for step titles).
  *  - No external CSS required (inline styles for default theme) yet easily themeable (`theme: 'tailwind' | 'unstyled'`).
  *
+ *  - Masked backdrop (`clip-path`) with rounded / circle / pill cutouts and optional blur; four‑panel fallback (`backdrop: 'panels'`).
+ *  - Explicit tooltip placement (`placement`, `offset`) with flipping and an optional arrow (`arrow`); the maths is exposed as `computePlacement`.
+ *  - Optional step transitions (`transition: 'fade' | 'slide'`): tooltip enter / exit, cutout morph; off under `prefers-reduced-motion`.
+ *  - Non‑blocking beacon mode (`mode: 'beacon'`): a pulsing hotspot on the target opens the step tooltip; no backdrop or scroll lock.
+ *  - Right‑to‑left layouts (`direction`, or detected from `dir`): mirrored nav, arrow keys and start / end alignment.
+ *  - Step copy as HTML, plain text or Markdown (`contentFormat`), optionally computed / loaded when the step is shown.
+ *
  * Not in scope / intentionally omitted:
  *  - Position flipping library dependencies (custom minimal placement logic is used instead).
- *  - Complex animation frameworks (keep animations simple & CSS based so they can be replaced externally).
+ *  - Complex animation frameworks (keep animations simple & CSS based so they can be replaced externally — see the `wt-entering` / `wt-leaving` hooks).
  *  - Global singleton management (caller decides orchestration patterns).
  *
  * Example:
@@ -34,7 +45,58 @@
  * startWalkthrough(steps, { tourId: 'basic-intro', persistProgress: true });
  * ```
  */
+import {
+	type CutoutBox,
+	type CutoutShape,
+	cutoutGeometry,
+	cutoutPath,
+	mergeOverlapping,
+	supportsPathClip,
+	unionBox,
+} from "./backdrop";
 import { recordDebug } from "./debug";
+import {
+	DEEP_COMBINATOR,
+	querySelectorDeep,
+	type ScopedTarget,
+	toDeepSelector,
+	viewportRect,
+} from "./deep-query";
+import { type EventHandler, TypedEmitter } from "./events";
+import {
+	formatLabel,
+	getLocale,
+	type LocalizedText,
+	localize,
+	onLocaleChange,
+	resolveLabels,
+	type WalkthroughLabels,
+} from "./i18n";
+import { renderMarkdown } from "./markdown";
+import { afterTransition, nextFrame, prefersReducedMotion } from "./motion";
+import {
+	computePlacement,
+	oppositeSide,
+	type Placement,
+	type PlacementDirection,
+} from "./placement";
+import {
+	getDefaultStorage,
+	readProgress,
+	removeProgress,
+	type StoredProgress,
+	type WalkthroughStorage,
+	writeProgress,
+} from "./storage";
+import {
+	isAbortError,
+	isOverlayMutation,
+	meetsTargetState,
+	type TargetState,
+	type WaitStrategy,
+	waitFor,
+	waitForStable,
+} from "./wait";
 
 // Runtime guard for SSR / non-DOM environments (e.g. during server rendering or certain test contexts)
 const hasDOM = typeof window !== "undefined" && typeof document !== "undefined";
@@ -49,7 +111,7 @@ const hasDOM = typeof window !== "undefined" && typeof document !== "undefined";
  *  - Return serialized innerHTML of a container.
  * This is intentionally minimal; users needing stricter policies can pre‑sanitize upstream.
  */
-function sanitizeHTML(html: string): string {
+export function sanitizeHTML(html: string): string {
 	try {
 		const doc = document.implementation.createHTMLDocument("wt");
 		const container = doc.createElement("div");
@@ -90,14 +152,208 @@ function sanitizeHTML(html: string): string {
 	}
 }
 
+/** Stylesheet injected for `theme: 'default'` (tours and hint layers). */
+const DEFAULT_STYLES = `
+    .wt-root { font-family: system-ui,-apple-system,"Segoe UI",Roboto,Helvetica,Arial,sans-serif; }
+    .wt-tooltip { background: #111827EE; color: #f9fafb; border: 1px solid #374151; border-radius: 10px; padding: 16px 18px; box-shadow: 0 8px 28px -6px rgba(0,0,0,.55); }
+    .wt-tooltip h3 { margin: 0 0 4px; font-size: 16px; font-weight: 600; }
+    .wt-tooltip .wt-content { font-size: 14px; line-height: 1.4; }
+    .wt-tooltip .wt-content-markdown > :first-child { margin-top:0; }
+    .wt-tooltip .wt-content-markdown > :last-child { margin-bottom:0; }
+    .wt-tooltip .wt-content-markdown :is(h1,h2,h3,h4,h5,h6) { margin:.6em 0 .3em; font-size:1em; font-weight:600; }
+    .wt-tooltip .wt-content-markdown :is(p,ul,ol,pre) { margin:.4em 0; }
+    .wt-tooltip .wt-content-markdown :is(ul,ol) { padding-inline-start:1.3em; }
+    .wt-tooltip .wt-content-markdown code { font:12px/1.4 ui-monospace,monospace; background:rgba(127,127,127,.2); padding:1px 4px; border-radius:4px; }
+    .wt-tooltip .wt-content-markdown pre { overflow:auto; padding:6px 8px; background:rgba(127,127,127,.2); border-radius:6px; }
+    .wt-tooltip .wt-content-markdown pre code { background:none; padding:0; }
+    .wt-tooltip .wt-content-markdown img { max-width:100%; height:auto; border-radius:4px; }
+    .wt-tooltip .wt-content-markdown a { color:inherit; text-decoration:underline; }
+    .wt-tooltip .wt-content.wt-loading, .wt-tooltip .wt-content.wt-load-error { opacity:.7; font-style:italic; }
+    .wt-tooltip .wt-nav { display:flex; gap:8px; justify-content: flex-end; }
+    .wt-tooltip .wt-choices { display:flex; flex-direction:column; gap:6px; }
+    .wt-tooltip .wt-progress-fraction { font-size:12px; opacity:.7; }
+    .wt-tooltip .wt-progress-bar { height:4px; border-radius:2px; background:rgba(127,127,127,.3); overflow:hidden; }
+    .wt-tooltip .wt-progress-fill { height:100%; background:#6366f1; transition: width 180ms ease; }
+    .wt-tooltip .wt-progress-dots { display:flex; gap:6px; justify-content:center; }
+    .wt-tooltip button.wt-dot, .wt-tooltip button.wt-dot:hover { width:8px; height:8px; padding:0; border-radius:50%; background:rgba(127,127,127,.35); box-shadow:none; cursor:default; }
+    .wt-tooltip button.wt-dot.wt-dot-visited { background:#a5b4fc; cursor:pointer; }
+    .wt-tooltip button.wt-dot.wt-dot-active { background:#6366f1; }
+    .wt-tooltip .wt-arrow { background: inherit; border: inherit; }
+    .wt-tooltip[data-placement^="bottom"] .wt-arrow { border-right:none; border-bottom:none; }
+    .wt-tooltip[data-placement^="top"] .wt-arrow { border-left:none; border-top:none; }
+    .wt-tooltip[data-placement^="right"] .wt-arrow { border-right:none; border-top:none; }
+    .wt-tooltip[data-placement^="left"] .wt-arrow { border-left:none; border-bottom:none; }
+    .wt-tooltip button { all:unset; font:inherit; background:#6366f1; color:#fff; padding:6px 14px; border-radius:6px; cursor:pointer; font-size:13px; font-weight:500; box-shadow:0 2px 4px rgba(0,0,0,.25); }
+    .wt-tooltip button:hover { background:#4f46e5; }
+    .wt-tooltip button.wt-secondary { background:#374151; }
+    .wt-tooltip button.wt-secondary:hover { background:#4b5563; }
+    .wt-hint-icon { all:unset; box-sizing:border-box; width:18px; height:18px; border-radius:50%; background:#6366f1; color:#fff; font:600 12px/18px system-ui,sans-serif; text-align:center; cursor:pointer; box-shadow:0 1px 3px rgba(0,0,0,.35); }
+    .wt-hint-icon:focus-visible { outline:2px solid #6366f1; outline-offset:2px; }
+    .wt-tooltip.wt-hint { padding:12px 14px; max-width:280px; gap:8px; }
+    .wt-beacon { all:unset; box-sizing:border-box; width:16px; height:16px; border-radius:50%; background:#6366f1; border:2px solid #fff; cursor:pointer; animation: wt-beacon-pulse 1.6s ease-out infinite; }
+    .wt-beacon:focus-visible { outline:2px solid #6366f1; outline-offset:2px; }
+    @keyframes wt-beacon-pulse { 0% { box-shadow:0 0 0 0 rgba(99,102,241,.6); } 70% { box-shadow:0 0 0 12px rgba(99,102,241,0); } 100% { box-shadow:0 0 0 0 rgba(99,102,241,0); } }
+    .wt-checklist { z-index:9997; width:280px; box-sizing:border-box; background:#111827F2; color:#f9fafb; font:14px/1.4 system-ui,sans-serif; padding:14px 16px; border-radius:12px; border:1px solid #374151; box-shadow:0 8px 24px -4px rgba(0,0,0,.45); display:flex; flex-direction:column; gap:10px; }
+    .wt-checklist-header { display:flex; align-items:center; gap:6px; }
+    .wt-checklist-header h3 { margin:0; flex:1; font-size:15px; font-weight:600; }
+    .wt-checklist-header button { all:unset; width:22px; height:22px; text-align:center; border-radius:4px; cursor:pointer; opacity:.7; }
+    .wt-checklist-header button:hover, .wt-checklist-header button:focus-visible { opacity:1; background:rgba(127,127,127,.25); }
+    .wt-checklist-progress { display:flex; flex-direction:column; gap:6px; font-size:12px; opacity:.85; }
+    .wt-checklist .wt-progress-bar { height:4px; border-radius:2px; background:rgba(127,127,127,.3); overflow:hidden; }
+    .wt-checklist .wt-progress-fill { height:100%; background:#6366f1; transition: width 180ms ease; }
+    .wt-checklist-items { list-style:none; margin:0; padding:0; display:flex; flex-direction:column; gap:4px; }
+    .wt-checklist-launch { all:unset; box-sizing:border-box; width:100%; display:flex; align-items:center; gap:8px; padding:6px 4px; border-radius:6px; cursor:pointer; }
+    .wt-checklist-launch:hover, .wt-checklist-launch:focus-visible { background:rgba(127,127,127,.2); }
+    .wt-checklist-launch:disabled { cursor:default; opacity:.5; }
+    .wt-checklist-check { flex:none; width:16px; height:16px; border-radius:50%; border:2px solid #6366f1; font-size:11px; line-height:16px; text-align:center; }
+    .wt-checklist-done .wt-checklist-check { background:#6366f1; color:#fff; }
+    .wt-checklist-done .wt-checklist-label { text-decoration:line-through; opacity:.7; }
+    .wt-checklist-description { margin:0 0 4px 28px; font-size:12px; opacity:.75; }
+    @media (prefers-reduced-motion: reduce) {
+      .wt-root .wt-ring, .wt-root .wt-progress-fill, .wt-checklist .wt-progress-fill { transition: none !important; }
+      .wt-beacon { animation: none; }
+    }
+    @media(prefers-color-scheme:light){
+      .wt-tooltip { background:#ffffffF2; color:#111827; border-color:#e5e7eb; }
+      .wt-tooltip button.wt-secondary { background:#e5e7eb; color:#111827; }
+      .wt-tooltip button.wt-secondary:hover { background:#d1d5db; }
+      .wt-checklist { background:#ffffffF2; color:#111827; border-color:#e5e7eb; }
+    }
+    `;
+
+/** Inject the default theme stylesheet once per document (shared by tours and `HintsLayer`). */
+export function injectDefaultStyles() {
+	if (!hasDOM || document.getElementById("__walkthrough_styles")) return;
+	const style = document.createElement("style");
+	style.id = "__walkthrough_styles";
+	style.textContent = DEFAULT_STYLES;
+	document.head.appendChild(style);
+}
+
+/** Context passed to step predicates (`when`) and branch resolvers (`next`). */
+export interface WalkthroughStepContext {
+	/** 0‑based index of the step being evaluated. */
+	index: number;
+	step: WalkthroughStep;
+	api: Walkthrough;
+}
+
+/**
+ * Branch target: a step `id`, or a resolver returning one (may be async).
+ * A resolver returning `undefined` falls back to the next step in array order.
+ */
+export type WalkthroughStepNext =
+	| string
+	| ((
+			ctx: WalkthroughStepContext,
+	  ) => string | undefined | Promise<string | undefined>);
+
+/** Value produced by a step text function: HTML / plain text, or a ready made DOM node. */
+export type WalkthroughTextValue = string | Node;
+
+/**
+ * Step `title` / `content`: plain or per locale text, or a function evaluated each time the
+ * step is shown (e.g. to read app state or fetch from a CMS). Async results render the
+ * `loading` label until they settle; failures fall back to the `loadError` label.
+ */
+export type WalkthroughStepText =
+	| LocalizedText
+	| ((
+			ctx: WalkthroughStepContext,
+	  ) => WalkthroughTextValue | Promise<WalkthroughTextValue>);
+
+/** A button rendered in the tooltip that jumps to a different branch. */
+export interface WalkthroughChoice {
+	/** Button text (plain or per locale). */
+	label: LocalizedText;
+	/** Step id (or resolver) to continue with when chosen. */
+	next: WalkthroughStepNext;
+}
+
+/**
+ * How the highlighted element reacts to the user:
+ *  - `allow`: clicks / typing reach the target while the tour stays open and follows its size
+ *  - `allow-and-track`: like `allow`, and emits `step:interaction` for clicks, input and focus
+ *  - `block`: a transparent shield (`.wt-shield`) over the cutout swallows pointer input
+ */
+export type WalkthroughInteraction = "allow" | "allow-and-track" | "block";
+
+/**
+ * Condition that unlocks advancing from a step (see {@link WalkthroughStep.advanceOn}):
+ *  - an event name: DOM event on the step target (e.g. `'input'`, `'change'`, `'submit'`)
+ *  - `{ event, target }`: event on another target, or on `'window'` / `'document'` for custom app events
+ *  - `{ until }`: predicate re‑checked on DOM mutations, `input` / `change` events and every `interval` ms
+ *
+ * `advance` (default true) moves on automatically once met; when false the condition only unlocks Next.
+ */
+export type WalkthroughAdvanceOn =
+	| string
+	| {
+			event: string;
+			/** Where to listen. Default: the step target. */
+			target?: WalkthroughTarget | "window" | "document";
+			/** Only count events for which this returns true. */
+			filter?: (event: Event) => boolean;
+			advance?: boolean;
+	  }
+	| {
+			until: (ctx: WalkthroughStepContext) => boolean | Promise<boolean>;
+			/** Re‑check interval (ms). Default: `stepPollIntervalMs` (min 16). */
+			interval?: number;
+			advance?: boolean;
+	  };
+
+/**
+ * Something that resolves to a step element:
+ *  - a CSS selector string (`>>>` pierces open shadow roots / same‑origin iframes, e.g. `'#editor >>> #bold'`)
+ *  - a scoped target (`{ host: 'my-widget', selector: '.inner' }`, `{ frame: '#editor', selector: '#bold' }`)
+ *  - an `Element` instance
+ *  - a ref‑like object (`{ current }`, e.g. a React `useRef`)
+ *  - a resolver function (called on every poll until it returns an element)
+ */
+export type WalkthroughTarget =
+	| string
+	| ScopedTarget
+	| Element
+	| { readonly current: Element | null | undefined }
+	| (() => Element | null | undefined);
+
 /**
  * A single walkthrough step.
  */
 export interface WalkthroughStep {
-	/** CSS selector used to locate the DOM element to highlight. */
-	selector: string;
-	/** Optional small heading shown at the top of the tooltip. */
-	title?: string;
+	/** Optional unique identifier used as a branch target by `next` / `choices`. */
+	id?: string;
+	/**
+	 * CSS selector used to locate the DOM element to highlight, or several selectors to highlight
+	 * a group together (e.g. a toolbar button and the panel it opens). Use `>>>` to descend into
+	 * open shadow roots and same‑origin iframes (`'my-widget >>> .inner'`).
+	 * Omit for a targetless step: the tooltip is centered over a full backdrop (welcome / summary screens).
+	 */
+	selector?: string | string[];
+	/**
+	 * Alternative to `selector` for elements without a stable selector: an `Element`, a ref
+	 * (`{ current }`), a `() => Element | null` resolver or a selector string (or an array of these).
+	 * Goes through the same wait / poll logic. Takes precedence over `selector`.
+	 */
+	target?: WalkthroughTarget | WalkthroughTarget[];
+	/** Match every element for each selector (`querySelectorAll`) instead of only the first. Default: false. */
+	selectAll?: boolean;
+	/**
+	 * How several matched elements are highlighted: one cutout around their `union` bounding box
+	 * (default) or a `separate` cutout + ring per element (overlapping ones are merged).
+	 */
+	highlight?: "union" | "separate";
+	/**
+	 * Primary element the tooltip anchors to (also used for `focus`, scrolling and
+	 * `advanceOnTargetClick`): index into the matched elements or a selector they match. Default: first match.
+	 */
+	anchor?: number | string;
+	/**
+	 * Optional small heading shown at the top of the tooltip (plain or per locale, e.g. `{ en, de }`),
+	 * or a function computing it when the step is shown (see {@link WalkthroughStepText}).
+	 */
+	title?: WalkthroughStepText;
 	/**
 	 * Optional HTML (or plain text) content for the body of the tooltip.
 	 *
@@ -106,29 +362,143 @@ export interface WalkthroughStep {
 	 * If you are 100% sure the string is safe (e.g. hard‑coded literal, already sanitized upstream)
 	 * you can set `allowUnsafeHTML: true` on the step to skip the sanitizer. Prefer leaving the
 	 * sanitizer enabled.
+	 *
+	 * Like `title` this may be a per locale map resolved against the active locale, or a
+	 * (possibly async) function called when the step is shown. Strings it returns are sanitized
+	 * the same way; returned DOM nodes are inserted as is.
 	 */
-	content?: string;
+	content?: WalkthroughStepText;
 	/**
 	 * Opt‑out flag to bypass built‑in HTML sanitization for `content`.
 	 * ONLY set this to true for trusted, static strings. When false/omitted the content is
 	 * passed through a conservative allow‑list sanitizer that removes script/style tags, inline
 	 * event handlers and javascript: / data: URLs with script capable MIME types.
+	 * Only applies to `contentFormat: 'html'`; Markdown output is always sanitized.
 	 */
 	allowUnsafeHTML?: boolean;
+	/** How `content` strings are interpreted (`html`, `text` or `markdown`). Inherits `contentFormat`. */
+	contentFormat?: WalkthroughContentFormat;
 	/** Extra padding (px) around the highlighted rectangle. Default: 8. */
 	padding?: number;
 	/** If true, attempts to call `.focus()` on the target element when shown. */
 	focus?: boolean;
+	/** Preferred tooltip placement for this step. Inherits `placement`. */
+	placement?: Placement;
+	/** Gap (px) between target and tooltip for this step. Inherits `offset`. */
+	offset?: number;
+	/** Shape of the backdrop hole for this step. Inherits `cutout`. */
+	cutout?: CutoutShape;
+	/** Corner radius (px) for `rounded` cutouts on this step. Inherits `cutoutRadius`. */
+	cutoutRadius?: number;
 	/** Hook executed before the step becomes visible (awaited). */
 	beforeStep?: () => void | Promise<void>;
 	/** Hook executed after the step is hidden / before moving to next (awaited). */
 	afterStep?: () => void | Promise<void>;
-	/** Per‑step override of the max wait (ms) for the selector to appear. Inherits `stepWaitMs`. */
+	/** Readiness the target must reach before the step renders. Inherits `waitFor`. */
+	waitFor?: TargetState;
+	/** Per‑step override of the max wait (ms) for the target to appear. Inherits `stepWaitMs`. */
 	waitMs?: number;
 	/** If true and element is not found after waiting, the entire walkthrough is aborted (skipped). Otherwise the step is skipped and the walkthrough continues. */
 	required?: boolean;
+	/**
+	 * Predicate evaluated (awaited) right before the step would be shown. When it resolves
+	 * false the step is skipped in the current direction of travel. Throwing counts as false.
+	 */
+	when?: (ctx: WalkthroughStepContext) => boolean | Promise<boolean>;
+	/** Where Next goes from this step (step id or resolver). Defaults to the following step. */
+	next?: WalkthroughStepNext;
+	/** Branch buttons shown in the tooltip. When present the Next button is replaced by these choices. */
+	choices?: WalkthroughChoice[];
+	/**
+	 * Action gate: Next, branch choices, Enter / ArrowRight and target / overlay clicks stay locked
+	 * until one of these conditions is met, then the tour advances by itself (unless the condition
+	 * sets `advance: false`). How the locked buttons look is controlled by `gatedNext`.
+	 */
+	advanceOn?: WalkthroughAdvanceOn | WalkthroughAdvanceOn[];
+	/** Whether the user can interact with the highlighted element. Inherits `interaction`. */
+	interaction?: WalkthroughInteraction;
+	/** Set to false to disable keyboard shortcuts (including Escape) while this step is shown. */
+	keyboard?: boolean;
+	/** Button / progress label overrides for this step (merged over the tour `labels`). */
+	labels?: Partial<WalkthroughLabels>;
+}
+
+/** One entry of the visited‑step history returned by {@link Walkthrough.getHistory}. */
+export interface WalkthroughHistoryEntry {
+	index: number;
+	step: WalkthroughStep;
+}
+
+/** Outcome of a single run, resolved by {@link Walkthrough.done} / {@link Walkthrough.run}. */
+export interface WalkthroughResult {
+	/** How the run ended. */
+	status: "finished" | "skipped" | "destroyed";
+	/** Skip reason token (e.g. 'esc', 'user-skip') or 'no-dom' when started without a DOM. */
+	reason?: string;
+	/** Last step rendered during the run (-1 if no step was shown). */
+	lastIndex: number;
+	/** Steps rendered during the run, oldest first. */
+	visited: WalkthroughHistoryEntry[];
+}
+
+/** Context handed to {@link WalkthroughOptions.customTooltip}. */
+export interface CustomTooltipContext {
+	step: WalkthroughStep;
+	index: number;
+	total: number;
+	api: Walkthrough;
+	/** Build the standard Back / Skip / Next (Done) button row. */
+	defaultNav: () => HTMLElement;
+	/** Build the standard branch buttons for `step.choices` (null when the step has none). */
+	defaultChoices: () => HTMLElement | null;
+	/** Build the progress indicator configured by `progress` (null for `none`). */
+	defaultProgress: () => HTMLElement | null;
+	/** Step `title` resolved for the active locale (undefined while loading or when it is a node). */
+	title?: string;
+	/** Step `content` resolved for the active locale (unsanitized; undefined while loading or when it is a node). */
+	content?: string;
+	/** `title` function result when it returned a DOM node. */
+	titleNode?: Node;
+	/** `content` function result when it returned a DOM node. */
+	contentNode?: Node;
+	/** True while an async `title` / `content` is pending (the tooltip re‑renders once it settles). */
+	loading: boolean;
+	/** Effective labels (locale bundle + tour + step overrides). */
+	labels: WalkthroughLabels;
+	/** Resolved text direction (also set as the tooltip's `dir`). */
+	direction: PlacementDirection;
 }
 
+/** Progress indicator rendered in the default tooltip. */
+export type WalkthroughProgress = "none" | "fraction" | "dots" | "bar";
+
+/**
+ * Presentation of a tour: `spotlight` is the modal backdrop + cutout; `beacon` shows a pulsing
+ * hotspot on the target that opens the step tooltip on click, without backdrop or scroll lock.
+ */
+export type WalkthroughMode = "spotlight" | "beacon";
+
+/**
+ * How step `content` strings are interpreted: sanitized `html`, plain `text`, or `markdown`
+ * rendered by the built‑in renderer (see `renderMarkdown`) and then sanitized.
+ */
+export type WalkthroughContentFormat = "html" | "text" | "markdown";
+
+/** Built‑in step transition. `none` switches steps instantly. */
+export type WalkthroughTransition = "none" | "fade" | "slide";
+
+/** Tour actions that can be bound to keys via {@link WalkthroughOptions.keymap}. */
+export type WalkthroughKeyAction = "next" | "prev" | "skip" | "finish";
+
+/**
+ * Keys per action, matched against `KeyboardEvent.key` with optional `Ctrl+` / `Alt+` /
+ * `Shift+` / `Meta+` prefixes (e.g. `'Shift+Enter'`). An empty list unbinds the action.
+ */
+export type WalkthroughKeymap = Partial<Record<WalkthroughKeyAction, string[]>>;
+
+/** Inline direction of the tooltip; `auto` follows the nearest `dir` attribute of the target / document. */
+export type WalkthroughDirection = PlacementDirection | "auto";
+
 /**
  * Configuration options applied to a walkthrough instance.
  */
@@ -139,12 +509,37 @@ export interface WalkthroughOptions {
 	zIndex?: number;
 	/** Enable keyboard navigation. Default: true. */
 	keyboard?: boolean;
+	/** Presentation (see {@link WalkthroughMode}). Default: 'spotlight'. */
+	mode?: WalkthroughMode;
+	/**
+	 * Key bindings, merged per action over the defaults: next `Enter` / `ArrowRight`,
+	 * prev `ArrowLeft`, skip `Escape`, finish none (arrow keys are mirrored in RTL).
+	 */
+	keymap?: WalkthroughKeymap;
+	/** Handle shortcuts while focus is in an input, textarea, select or contenteditable. Default: false. */
+	keyboardInEditable?: boolean;
 	/** Allow body scrolling; if false sets `overflow:hidden` during tour. Default: false. */
 	allowBodyScroll?: boolean;
-	/** Max wait time for step element polling (ms). 0 disables waiting. Default: 5000. */
+	/** Max wait time for step elements to appear (ms). 0 disables waiting. Default: 5000. */
 	stepWaitMs?: number;
-	/** Poll interval (ms) for element resolution (minimum clamped to 0/1 internally). Default: 120. */
+	/**
+	 * Poll interval (ms) for element resolution (minimum clamped to 0/1 internally). Used by
+	 * `waitStrategy: 'poll'` and as the re‑check interval for targets a MutationObserver cannot
+	 * see (shadow roots / iframes / resolver functions). Default: 120.
+	 */
 	stepPollIntervalMs?: number;
+	/**
+	 * How missing step targets are awaited: `observe` (default) re‑checks on DOM mutations,
+	 * `poll` re‑queries every `stepPollIntervalMs`. Waits are cancelled by navigation,
+	 * `skip()`, `finish()` and `destroy()`.
+	 */
+	waitStrategy?: WaitStrategy;
+	/**
+	 * Readiness step targets must reach: `attached` (in the DOM), `visible` (rendered, non‑zero
+	 * size, not hidden / collapsed / covered) or `stable` (visible and no longer moving, e.g.
+	 * after a CSS transition). Targets that never get there count as missing. Default: 'attached'.
+	 */
+	waitFor?: TargetState;
 	/** Called when walkthrough finishes normally (user reached last step). */
 	onFinish?: () => void;
 	/** Called when walkthrough is skipped/aborted. Param provides reason tokens (e.g. 'esc', 'user-skip'). */
@@ -155,75 +550,322 @@ export interface WalkthroughOptions {
 	advanceOnTargetClick?: boolean;
 	/** If true, clicking any dimmed overlay area advances. Default: false. */
 	advanceOnOverlayClick?: boolean;
+	/** How Next / choice buttons are shown while a step's `advanceOn` condition is unmet: `disable` or `hide`. Default: 'disable'. */
+	gatedNext?: "disable" | "hide";
+	/** Default {@link WalkthroughInteraction} for steps. Default: 'allow'. */
+	interaction?: WalkthroughInteraction;
 	/** Attempts to scroll the target into view (smooth). Default: true. */
 	scrollIntoView?: boolean;
 	/** Custom scrollIntoView options (overrides default behavior). */
 	scrollOptions?: ScrollIntoViewOptions;
-	/** Persist progress to localStorage (`__walkthrough:<tourId>`). Default: false. */
+	/** Persist progress (`__walkthrough:<tourId>`) to `storage`. Default: false. */
 	persistProgress?: boolean;
 	/** Resume from stored index if not yet completed (implied true when `persistProgress`). */
 	resume?: boolean;
 	/** Identifier for persistence; if omitted persistence is disabled regardless of other flags. */
 	tourId?: string;
+	/** Storage adapter for persisted progress (may be async). Defaults to the global store (`localStorage` unless replaced via `setDefaultStorage`). */
+	storage?: WalkthroughStorage;
 	/**
 	 * Custom tooltip renderer. Return a root element inserted into the provided container.
 	 * You are responsible for adding navigation UI OR call `ctx.defaultNav()` to inject standard buttons.
 	 */
-	customTooltip?: (ctx: {
-		step: WalkthroughStep;
-		index: number;
-		total: number;
-		api: Walkthrough;
-		defaultNav: () => HTMLElement;
-	}) => HTMLElement;
+	customTooltip?: (ctx: CustomTooltipContext) => HTMLElement;
 	/** Disable internal focus trap. Default: false. */
 	disableFocusTrap?: boolean;
+	/**
+	 * Progress indicator in the tooltip: `fraction` ("2 / 5"), `dots` (visited dots jump back
+	 * to that step) or `bar`. Default: 'none'.
+	 */
+	progress?: WalkthroughProgress;
+	/**
+	 * Default interpretation of step `content` strings: `html` (sanitized unless the step sets
+	 * `allowUnsafeHTML`), `text` or `markdown` (always sanitized). Default: 'html'.
+	 */
+	contentFormat?: WalkthroughContentFormat;
+	/** Override built‑in tooltip strings (merged over the active locale bundle). */
+	labels?: Partial<WalkthroughLabels>;
+	/** Pin this tour to a locale instead of following the global `setLocale()`. */
+	locale?: string;
+	/**
+	 * Text direction. In `rtl` the nav buttons are mirrored, ArrowLeft advances / ArrowRight goes
+	 * back and placement `start` / `end` align to the right / left edge. Default: 'auto'.
+	 */
+	direction?: WalkthroughDirection;
 	/** Styling mode. 'default' injects minimal CSS, 'tailwind' expects Tailwind tokens, 'unstyled' leaves raw elements. */
 	theme?: "default" | "tailwind" | "unstyled";
 	/** Additional classes appended to tooltip root. */
 	tooltipClass?: string;
 	/** Additional classes appended to highlight ring. */
 	ringClass?: string;
-	/** Additional classes appended to each backdrop panel. */
+	/** Additional classes appended to each backdrop panel (or the single mask element). */
 	overlayClass?: string;
+	/**
+	 * Backdrop renderer. `mask` (default) clips one full screen element with `clip-path: path()`
+	 * so cutouts can be shaped and blurred; `panels` uses four rectangles around the target
+	 * (rectangular hole only). Browsers without `clip-path: path()` support fall back to `panels`.
+	 */
+	backdrop?: "mask" | "panels";
+	/** Default cutout shape (`rect`, `rounded`, `circle`, `pill`). Mask backdrop only. Default: 'rounded'. */
+	cutout?: CutoutShape;
+	/** Default corner radius (px) for `rounded` cutouts. Default: 8. */
+	cutoutRadius?: number;
+	/** Blur (px) applied to the page behind the backdrop via `backdrop-filter`. Default: 0 (none). */
+	backdropBlur?: number;
+	/**
+	 * Step transition: the tooltip fades (`fade`) or fades + slides (`slide`) out before the next
+	 * step and back in after it; the cutout and ring morph to the next target. The root gets
+	 * `wt-animate wt-animate-<name>` and the tooltip `wt-entering` / `wt-leaving` while a phase
+	 * runs, so themes can restyle the motion in CSS. Disabled under `prefers-reduced-motion`.
+	 * Default: 'none'.
+	 */
+	transition?: WalkthroughTransition;
+	/** Duration (ms) of `transition` phases; exit waits at most this long. Default: 200. */
+	transitionMs?: number;
 	/** Re-append root as last <body> child on DOM mutations to stay above modals. Default: true. */
 	alwaysOnTop?: boolean;
+	/** Default tooltip placement (`top|bottom|left|right` with optional `-start`/`-end`, or `auto`). Default: 'auto'. */
+	placement?: Placement;
+	/** Default gap (px) between target and tooltip. Default: 14. */
+	offset?: number;
+	/** Render an arrow (`.wt-arrow`) on the tooltip pointing at the target. Default: false. */
+	arrow?: boolean;
+}
+
+/**
+ * Event map for {@link Walkthrough.on}. Payload `index` is always the 0‑based step index
+ * current when the event fired (`-1` before the first step).
+ */
+export interface WalkthroughEvents {
+	/** Tour became active; `index` is the step it is about to show (after resume). */
+	start: { index: number };
+	/** A step was rendered and its target resolved (`element` is null for centered, targetless steps). */
+	"step:enter": {
+		index: number;
+		step: WalkthroughStep;
+		element: HTMLElement | null;
+		/** Every highlighted element (multi‑selector steps); empty for centered steps. */
+		elements: HTMLElement[];
+	};
+	/** The user interacted with the highlighted element (`interaction: 'allow-and-track'` steps). */
+	"step:interaction": {
+		index: number;
+		step: WalkthroughStep;
+		/** DOM event type: `click`, `input`, `change`, `focusin` or `submit`. */
+		type: string;
+		event: Event;
+		element: HTMLElement;
+	};
+	/** The user opened a step's beacon (`mode: 'beacon'`). */
+	"beacon:open": { index: number; step: WalkthroughStep };
+	/** The user navigated away from a step (after its `afterStep` hook ran). */
+	"step:leave": { index: number; step: WalkthroughStep };
+	/** A step target could not be resolved in time (`required` steps abort the tour afterwards). */
+	"step:missing": { index: number; step: WalkthroughStep; required: boolean };
+	/** Tour completed normally. */
+	finish: { index: number };
+	/** Tour was aborted; `reason` matches the `onSkip` token. */
+	skip: { index: number; reason?: string };
+	/** An active tour was torn down via {@link Walkthrough.destroy}. */
+	destroy: { index: number };
+	/** A step hook or event handler threw. `source` names the hook / event that failed. */
+	error: { error: unknown; source: string; index: number };
+}
+
+/** Normalized list of targets for a step (`target` else `selector`; empty for targetless steps). */
+function targetsOf(step: WalkthroughStep): WalkthroughTarget[] {
+	const spec = step.target ?? step.selector;
+	if (!spec) return [];
+	const list = Array.isArray(spec) ? spec : [spec];
+	return list.filter(Boolean);
+}
+
+/** Targetless steps render a centered tooltip over a full backdrop. */
+function isCenteredStep(step: WalkthroughStep): boolean {
+	return targetsOf(step).length === 0;
+}
+
+/** Human readable description of a step's target (debug events / skip reasons). */
+function describeTarget(step: WalkthroughStep): string {
+	return targetsOf(step)
+		.map((t) => {
+			if (typeof t === "string") return t;
+			if (typeof t === "object" && "selector" in t) return toDeepSelector(t);
+			return "<target>";
+		})
+		.join(", ");
+}
+
+/** Resolve one target to its current element(s); resolver errors count as "not found". */
+function queryTarget(target: WalkthroughTarget, all: boolean): HTMLElement[] {
+	if (typeof target === "string") return querySelectorDeep(target, all);
+	let el: Element | null | undefined;
+	if (typeof target === "function") {
+		try {
+			el = target();
+		} catch {
+			el = null;
+		}
+	} else if ("current" in target) {
+		el = target.current;
+	} else if ("selector" in target) {
+		return querySelectorDeep(toDeepSelector(target), all);
+	} else {
+		el = target;
+	}
+	// Detached elements (e.g. a stale ref) cannot be highlighted yet
+	return el?.isConnected ? [el as HTMLElement] : [];
+}
+
+/** Rectangles surrounding the target in the four‑panel backdrop fallback. */
+type BackdropPanels = Record<
+	"top" | "left" | "right" | "bottom",
+	HTMLDivElement
+>;
+
+/** Targets whose resolution can change without a mutation of the top document. */
+function isUnobservableTarget(target: WalkthroughTarget): boolean {
+	if (typeof target === "string") return target.includes(DEEP_COMBINATOR);
+	return (
+		typeof target === "function" ||
+		(typeof target === "object" && "selector" in target)
+	);
+}
+
+/** Primary element for a step: `anchor` index / selector, else the first match. */
+function pickAnchor(
+	elements: HTMLElement[],
+	anchor: WalkthroughStep["anchor"],
+): HTMLElement | null {
+	if (typeof anchor === "number")
+		return elements[anchor] ?? elements[0] ?? null;
+	if (anchor) {
+		const match = elements.find((el) => {
+			try {
+				return el.matches(anchor);
+			} catch {
+				return false;
+			}
+		});
+		if (match) return match;
+	}
+	return elements[0] ?? null;
+}
+
+/** Default key bindings; arrow keys follow the reading direction. */
+function defaultKeymap(
+	direction: PlacementDirection,
+): Required<WalkthroughKeymap> {
+	const rtl = direction === "rtl";
+	return {
+		next: ["Enter", rtl ? "ArrowLeft" : "ArrowRight"],
+		prev: [rtl ? "ArrowRight" : "ArrowLeft"],
+		skip: ["Escape"],
+		finish: [],
+	};
+}
+
+/** True when `e` matches a binding like `Enter` or `Ctrl+Shift+K`. */
+function matchesKey(e: KeyboardEvent, binding: string): boolean {
+	const parts = binding.split("+");
+	// A trailing "+" binds the plus key itself ("Shift++")
+	const key = binding.endsWith("+") ? "+" : (parts.pop() ?? "");
+	const mods = new Set(parts.map((m) => m.toLowerCase()).filter(Boolean));
+	if (
+		e.ctrlKey !== mods.has("ctrl") ||
+		e.altKey !== mods.has("alt") ||
+		e.metaKey !== mods.has("meta")
+	)
+		return false;
+	// Shift is only checked when requested (it is implied by keys like "?")
+	if (mods.has("shift") && !e.shiftKey) return false;
+	return e.key.length === 1
+		? e.key.toLowerCase() === key.toLowerCase()
+		: e.key === key;
+}
+
+/** True for elements that consume typed keys (text fields, selects, contenteditable). */
+function isEditable(node: EventTarget | undefined): boolean {
+	if (!(node instanceof Element)) return false;
+	if (node instanceof HTMLTextAreaElement || node instanceof HTMLSelectElement)
+		return true;
+	if (node instanceof HTMLInputElement)
+		return ![
+			"button",
+			"checkbox",
+			"radio",
+			"submit",
+			"reset",
+			"image",
+			"range",
+			"color",
+			"file",
+		].includes(node.type);
+	return node instanceof HTMLElement && node.isContentEditable;
 }
 
 interface InternalStep extends WalkthroughStep {
 	_el?: HTMLElement | null;
+	/** All resolved elements (primary included). */
+	_els?: HTMLElement[];
+}
+
+/** Outcome of a function `title` / `content` for the step being shown. */
+type StepTextState =
+	| { status: "loading" }
+	| { status: "ready"; value: WalkthroughTextValue }
+	| { status: "error" };
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+	return !!value && typeof (value as PromiseLike<T>).then === "function";
 }
 
 type InternalResolvedOptions = {
 	backdropOpacity: number;
 	zIndex: number;
 	keyboard: boolean;
+	mode: WalkthroughMode;
+	keymap: WalkthroughKeymap;
+	keyboardInEditable: boolean;
 	allowBodyScroll: boolean;
 	stepWaitMs: number;
 	stepPollIntervalMs: number;
+	waitStrategy: WaitStrategy;
+	waitFor: TargetState;
 	onFinish: () => void;
 	onSkip: (reason?: string) => void;
 	onStepChange: (index: number) => void;
 	advanceOnTargetClick: boolean;
 	advanceOnOverlayClick: boolean;
+	gatedNext: "disable" | "hide";
+	interaction: WalkthroughInteraction;
 	scrollIntoView: boolean;
 	scrollOptions?: ScrollIntoViewOptions;
 	persistProgress: boolean;
 	resume: boolean;
 	tourId?: string;
-	customTooltip?: (ctx: {
-		step: WalkthroughStep;
-		index: number;
-		total: number;
-		api: Walkthrough;
-		defaultNav: () => HTMLElement;
-	}) => HTMLElement;
+	storage?: WalkthroughStorage;
+	customTooltip?: (ctx: CustomTooltipContext) => HTMLElement;
 	disableFocusTrap: boolean;
 	theme: "default" | "tailwind" | "unstyled";
+	progress: WalkthroughProgress;
+	contentFormat: WalkthroughContentFormat;
+	labels?: Partial<WalkthroughLabels>;
+	locale?: string;
+	direction: WalkthroughDirection;
 	tooltipClass?: string;
 	ringClass?: string;
 	overlayClass?: string;
+	backdrop: "mask" | "panels";
+	cutout: CutoutShape;
+	cutoutRadius: number;
+	backdropBlur: number;
+	transition: WalkthroughTransition;
+	transitionMs: number;
 	alwaysOnTop: boolean;
+	placement: Placement;
+	offset: number;
+	arrow: boolean;
 };
 
 /**
@@ -231,24 +873,48 @@ type InternalResolvedOptions = {
  *
  * Public methods:
  *  - {@link start} : begin / resume at an index
- *  - {@link next} / {@link prev}
+ *  - {@link run} / {@link done} : start and await the {@link WalkthroughResult}
+ *  - {@link next} / {@link prev} : prev walks back through the visited history
+ *  - {@link goTo} : jump to a step by `id`
+ *  - {@link canAdvance} : whether an `advanceOn` gated step has been unlocked
+ *  - {@link openBeacon} : expand the current beacon (`mode: 'beacon'`)
+ *  - {@link getHistory} : visited steps (oldest first) for breadcrumbs
  *  - {@link finish} : mark completed, fire callback, remove overlay
  *  - {@link skip} : abort without completion mark
  *  - {@link destroy} : unconditionally tear down (no callbacks)
  *  - {@link clearProgress} : remove persisted state (if enabled)
+ *  - {@link on} / {@link off} : subscribe to typed lifecycle events (see {@link WalkthroughEvents})
  */
 export class Walkthrough {
 	private steps: InternalStep[];
 	private opts: InternalResolvedOptions;
 	private index = -1;
+	/** Step whose `step:enter` fired last, -1 once it was left (keeps enter / leave paired). */
+	private rendered = -1;
+	/** Last step rendered in this run (-1 before the first), reported as `lastIndex`. */
+	private lastShown = -1;
 	private active = false;
+	/** Indices of rendered steps, oldest first; the last entry is the current step. */
+	private history: number[] = [];
+	/** Pending outcome of the current (or next) run. */
+	private outcome?: {
+		promise: Promise<WalkthroughResult>;
+		resolve: (r: WalkthroughResult) => void;
+		settled: boolean;
+	};
 	private root!: HTMLElement;
 	private overlayParts!: {
-		top: HTMLDivElement;
-		left: HTMLDivElement;
-		right: HTMLDivElement;
-		bottom: HTMLDivElement;
+		/** Four‑panel fallback backdrop (only when the mask renderer is not used). */
+		panels?: BackdropPanels;
+		/** Single clip‑path masked backdrop element. */
+		mask?: HTMLDivElement;
 		ring: HTMLDivElement;
+		/** Additional rings for `highlight: 'separate'` steps (cloned from `ring`). */
+		extraRings: HTMLDivElement[];
+		/** Transparent click shield over the cutout (`interaction: 'block'`). */
+		shield: HTMLDivElement;
+		/** Hotspot that opens the tooltip (`mode: 'beacon'` only). */
+		beacon?: HTMLButtonElement;
 		tooltip: HTMLDivElement;
 		live: HTMLDivElement;
 	};
@@ -256,7 +922,27 @@ export class Walkthrough {
 	private scrollHandler = () => this.reposition();
 	private keyHandler = (e: KeyboardEvent) => this.onKey(e);
 	private mutationObserver?: MutationObserver;
+	private localeDisposer?: () => void;
+	/** False while the current step's `advanceOn` condition is unmet. */
+	private gateOpen = true;
+	/** Beacon mode: whether the current step's tooltip is expanded. */
+	private beaconOpen = false;
+	/** Results of the shown step's function `title` / `content` (replaced on every show). */
+	private stepText: Partial<Record<"title" | "content", StepTextState>> = {};
+	/** Cancels the in‑flight navigation (pending target wait) when superseded or torn down. */
+	private navigation?: AbortController;
+	/** Navigation still picking its step (`when` checks); it owns no listeners until it commits. */
+	private pendingNavigation?: AbortController;
+	/** Iframe windows hosting the current step's targets (their scrolling moves the target). */
+	private frameWindows: Window[] = [];
 	private focusTrapDisposer?: () => void;
+	private events = new TypedEmitter<WalkthroughEvents>((error, event) => {
+		recordDebug("walkthrough", "listener-error", this.opts.tourId || "<anon>", {
+			event,
+		});
+		// Never recurse when an `error` handler itself throws
+		if (event !== "error") this.reportError(error, `event:${event}`);
+	});
 
 	/**
 	 * Create a new walkthrough.
@@ -269,31 +955,136 @@ export class Walkthrough {
 			backdropOpacity: options.backdropOpacity ?? 0.55,
 			zIndex: options.zIndex ?? 9999,
 			keyboard: options.keyboard ?? true,
+			mode: options.mode ?? "spotlight",
+			keymap: options.keymap ?? {},
+			keyboardInEditable: options.keyboardInEditable ?? false,
 			allowBodyScroll: options.allowBodyScroll ?? false,
 			// Allow explicit 0 to mean "no waiting / single attempt" but clamp negatives
 			stepWaitMs: Math.max(0, options.stepWaitMs ?? 5000),
 			// A poll interval of 0 can create a tight loop under some schedulers; treat 0 as 1ms minimum
 			stepPollIntervalMs: Math.max(0, options.stepPollIntervalMs ?? 120),
+			waitStrategy: options.waitStrategy ?? "observe",
+			waitFor: options.waitFor ?? "attached",
 			onFinish: options.onFinish ?? (() => {}),
 			onSkip: options.onSkip ?? (() => {}),
 			onStepChange: options.onStepChange ?? (() => {}),
 			advanceOnTargetClick: options.advanceOnTargetClick ?? false,
 			advanceOnOverlayClick: options.advanceOnOverlayClick ?? false,
+			gatedNext: options.gatedNext ?? "disable",
+			interaction: options.interaction ?? "allow",
 			scrollIntoView: options.scrollIntoView ?? true,
 			scrollOptions: options.scrollOptions,
 			persistProgress: options.persistProgress ?? false,
 			resume: options.resume ?? !!options.persistProgress,
 			tourId: options.tourId,
+			storage: options.storage,
 			customTooltip: options.customTooltip,
 			disableFocusTrap: options.disableFocusTrap ?? false,
 			theme: options.theme ?? "default",
+			progress: options.progress ?? "none",
+			contentFormat: options.contentFormat ?? "html",
+			labels: options.labels,
+			locale: options.locale,
+			direction: options.direction ?? "auto",
 			tooltipClass: options.tooltipClass,
 			ringClass: options.ringClass,
 			overlayClass: options.overlayClass,
+			backdrop: options.backdrop ?? "mask",
+			cutout: options.cutout ?? "rounded",
+			cutoutRadius: options.cutoutRadius ?? 8,
+			backdropBlur: Math.max(0, options.backdropBlur ?? 0),
+			transition: options.transition ?? "none",
+			transitionMs: Math.max(0, options.transitionMs ?? 200),
 			alwaysOnTop: options.alwaysOnTop ?? true,
+			placement: options.placement ?? "auto",
+			offset: options.offset ?? 14,
+			arrow: options.arrow ?? false,
 		};
 	}
 
+	/**
+	 * Subscribe to a lifecycle event. Multiple handlers per event are supported and
+	 * are invoked in subscription order. Returns an unsubscribe function.
+	 */
+	on<K extends keyof WalkthroughEvents>(
+		event: K,
+		handler: EventHandler<WalkthroughEvents[K]>,
+	): () => void {
+		return this.events.on(event, handler);
+	}
+
+	/** Remove a handler previously registered with {@link on}. */
+	off<K extends keyof WalkthroughEvents>(
+		event: K,
+		handler: EventHandler<WalkthroughEvents[K]>,
+	) {
+		this.events.off(event, handler);
+	}
+
+	/**
+	 * Promise for the outcome of the latest run (or the next run if never started).
+	 * A fresh promise is created each time a settled instance is started again.
+	 */
+	get done(): Promise<WalkthroughResult> {
+		return (this.outcome ?? this.pendingOutcome()).promise;
+	}
+
+	/** Start the walkthrough and resolve once it finishes, is skipped or destroyed. */
+	async run(startIndex = 0): Promise<WalkthroughResult> {
+		await this.start(startIndex);
+		return this.done;
+	}
+
+	/** Current unsettled outcome holder, creating one if the previous run already settled. */
+	private pendingOutcome() {
+		if (!this.outcome || this.outcome.settled) {
+			let resolve!: (r: WalkthroughResult) => void;
+			const promise = new Promise<WalkthroughResult>((r) => {
+				resolve = r;
+			});
+			this.outcome = { promise, resolve, settled: false };
+		}
+		return this.outcome;
+	}
+
+	/** Resolve the current run's outcome (first call wins). */
+	private settle(status: WalkthroughResult["status"], reason?: string) {
+		const outcome = this.outcome;
+		if (!outcome || outcome.settled) return;
+		outcome.settled = true;
+		outcome.resolve({
+			status,
+			reason,
+			lastIndex: this.lastShown,
+			visited: this.getHistory(),
+		});
+	}
+
+	/** Emit `error` (also recorded in the debug buffer). */
+	private reportError(error: unknown, source: string) {
+		recordDebug("walkthrough", "error", this.opts.tourId || "<anon>", {
+			source,
+			index: this.index,
+		});
+		this.events.emit("error", { error, source, index: this.index });
+	}
+
+	/**
+	 * Run a user supplied step hook. Failures are reported through the `error` event
+	 * instead of rejecting navigation, so one broken hook cannot strand the overlay.
+	 */
+	private async runHook(
+		hook: (() => void | Promise<void>) | undefined,
+		source: string,
+	) {
+		if (!hook) return;
+		try {
+			await hook();
+		} catch (error) {
+			this.reportError(error, source);
+		}
+	}
+
 	private hasDOM(): boolean {
 		return (
 			typeof window !== "undefined" &&
@@ -309,12 +1100,18 @@ export class Walkthrough {
 	 */
 	async start(startIndex = 0) {
 		if (this.active) return;
+		this.pendingOutcome();
+		this.lastShown = -1;
 		if (!this.hasDOM()) {
 			// Graceful no-op in non-DOM (SSR / test fallback). Record a debug marker for visibility.
 			recordDebug("walkthrough", "start-no-dom", this.opts.tourId || "<anon>", { startIndex });
+			this.settle("destroyed", "no-dom");
 			return;
 		}
 		this.active = true;
+		this.index = -1;
+		this.history = [];
+		this.rendered = -1;
 		this.buildDom();
 		recordDebug("walkthrough", "start", this.opts.tourId || "<anon>", {
 			startIndex,
@@ -322,17 +1119,22 @@ export class Walkthrough {
 			resume: this.opts.resume,
 			persist: this.opts.persistProgress,
 		});
-		if (!this.opts.allowBodyScroll) document.body.style.overflow = "hidden";
+		if (this.locksScroll()) document.body.style.overflow = "hidden";
 		if (hasDOM) {
 			window.addEventListener("resize", this.resizeHandler, { passive: true });
 			window.addEventListener("scroll", this.scrollHandler, true);
 		}
 		if (this.opts.keyboard)
 			document.addEventListener("keydown", this.keyHandler);
+		// Follow global locale switches unless the tour pins its own locale
+		if (!this.opts.locale)
+			this.localeDisposer = onLocaleChange(() => this.refreshTooltip());
 		// Mutation observer (layout changes) – skip if DOM APIs unavailable
 		if (this.hasDOM() && typeof MutationObserver !== "undefined") {
-			this.mutationObserver = new MutationObserver(() => {
+			this.mutationObserver = new MutationObserver((records) => {
 				if (!this.hasDOM()) return; // defensive
+				// Ignore overlay updates, ours or a hints layer's (positioning writes would otherwise re-trigger us)
+				if (records.every(isOverlayMutation)) return;
 				this.reposition();
 				if (this.opts.alwaysOnTop) this.ensureRootOnTop();
 			});
@@ -344,12 +1146,13 @@ export class Walkthrough {
 				});
 			} catch {}
 		}
-		const resumeIndex = this.loadProgress();
-		const initial =
-			this.opts.persistProgress && this.opts.resume && resumeIndex != null
-				? resumeIndex
-				: startIndex;
-		await this.go(initial);
+		const stored = this.opts.resume ? await this.loadProgress() : null;
+		const initial = stored?.index ?? startIndex;
+		if (stored?.index != null) this.history = [...(stored.history ?? [])];
+		this.events.emit("start", { index: initial });
+		if (initial < 0) return this.finish();
+		// Starting / resuming always moves forward: skipped first steps lead to the next one
+		await this.show(initial, 1);
 	}
 
 	/**
@@ -357,52 +1160,236 @@ export class Walkthrough {
 	 * Intended for internal use & custom navigation UIs.
 	 */
 	async go(i: number): Promise<void> {
+		// show() only finishes when running off the end; an explicit jump before the start does too
+		if (i < 0) return this.finish();
+		return this.show(i, i < this.index ? -1 : 1);
+	}
+
+	/**
+	 * Jump to the step with the given `id` (its `when` predicate still applies).
+	 * Unknown ids are reported through the `error` event and leave the tour where it is.
+	 */
+	goTo(stepId: string): Promise<void> {
+		return this.follow(stepId);
+	}
+
+	/** Visited steps (oldest first, current last). Back navigation pops from this list. */
+	getHistory(): WalkthroughHistoryEntry[] {
+		return this.history.map((index) => ({ index, step: this.steps[index] }));
+	}
+
+	/**
+	 * Show step `i`, skipping steps whose `when` predicate is false by moving in `dir`.
+	 * Running off the end finishes; running off the start (backwards) keeps the current step.
+	 * `record` controls the history: `push` appends the shown step, `back` unwinds to it.
+	 * `from` is the step shown when the navigation began (carried through missing-target skips).
+	 */
+	private async show(
+		i: number,
+		dir: 1 | -1,
+		record: "push" | "back" = "push",
+		from = this.rendered,
+	): Promise<void> {
 		if (!this.active) return;
-		if (i < 0 || i >= this.steps.length) return this.finish();
-		// after previous
-		if (this.index >= 0) {
-			const prev = this.steps[this.index];
-			if (prev.afterStep) await prev.afterStep();
+		if (i >= this.steps.length) return this.finish();
+		// Only the latest navigation may pick a step
+		this.pendingNavigation?.abort();
+		const nav = new AbortController();
+		this.pendingNavigation = nav;
+		const { signal } = nav;
+		const target = i < 0 ? -1 : await this.firstEligible(i, dir);
+		if (!this.active || signal.aborted) return;
+		this.pendingNavigation = undefined;
+		// A no-op navigation leaves the current step (and its listeners) alone
+		if (target < 0) {
+			if (dir > 0 || from < 0) return this.finish();
+			// Nothing earlier to show: stay put, or return to the step a missing target made us leave
+			if (this.rendered !== from) return this.show(from, 1, "push", from);
+			return;
+		}
+		i = target;
+		// Commit: the shown step's listeners go, an older navigation's wait is cancelled and it never renders
+		this.navigation?.abort();
+		this.navigation = nav;
+		// Leave the rendered step (not one whose target was missing: it never entered)
+		if (this.rendered >= 0) {
+			const left = this.rendered;
+			const prev = this.steps[left];
+			this.rendered = -1;
+			await this.runHook(prev.afterStep, "afterStep");
+			this.events.emit("step:leave", { index: left, step: prev });
+			await this.playExit(signal);
+			if (!this.active || signal.aborted) return;
 		}
 		this.index = i;
 		recordDebug("walkthrough", "step", this.opts.tourId || "<anon>", {
 			index: this.index,
-			selector: this.steps[this.index].selector,
+			selector: describeTarget(this.steps[this.index]),
 		});
 		this.opts.onStepChange(this.index);
 		const step = this.steps[this.index];
-		if (step.beforeStep) await step.beforeStep();
-		step._el = await this.resolveElement(step);
-		if (!step._el) {
+		await this.runHook(step.beforeStep, "beforeStep");
+		if (signal.aborted) return;
+		const centered = isCenteredStep(step);
+		try {
+			step._els = centered ? [] : await this.resolveElements(step, signal);
+		} catch (error) {
+			if (isAbortError(error)) return;
+			throw error;
+		}
+		if (signal.aborted) return;
+		step._el = pickAnchor(step._els, step.anchor);
+		if (!step._el && !centered) {
 			recordDebug(
 				"walkthrough",
 				step.required ? "missing-required" : "missing-optional",
 				this.opts.tourId || "<anon>",
-				{ selector: step.selector },
+				{ selector: describeTarget(step) },
 			);
+			this.events.emit("step:missing", {
+				index: i,
+				step,
+				required: !!step.required,
+			});
 			if (step.required) {
-				this.skip(`Required element not found for selector: ${step.selector}`);
+				this.skip(
+					`Required element not found for selector: ${describeTarget(step)}`,
+				);
 				return;
 			} else {
 				// skip this step
-				return this.go(i + 1);
+				return this.show(i + dir, dir, record, from);
 			}
 		}
 		recordDebug("walkthrough", "resolved", this.opts.tourId || "<anon>", {
 			index: this.index,
-			selector: step.selector,
+			selector: describeTarget(step),
 		});
-		this.renderStep(step);
+		// Before rendering so Back / progress dots reflect the updated path
+		this.recordVisit(i, record);
+		this.armAdvanceOn(step, signal);
+		this.loadStepText(step, i, signal);
+		this.playEnter(() => this.renderStep(step, signal));
 		this.saveProgress();
+		this.rendered = i;
+		this.lastShown = i;
+		this.events.emit("step:enter", {
+			index: i,
+			step,
+			element: step._el,
+			elements: step._els,
+		});
+	}
+
+	/** False while the current step waits for its `advanceOn` action (Next is locked). */
+	canAdvance(): boolean {
+		return this.gateOpen;
+	}
+
+	/** Advance from a click (target, shield, overlay) unless the step's `advanceOn` gate is closed. */
+	private nextIfOpen() {
+		if (this.gateOpen) this.next();
 	}
 
-	/** Advance to next step. */
-	next() {
-		this.go(this.index + 1);
+	/** Disable (or hide, see `gatedNext`) a button that advances while the gate is closed. */
+	private lockUntilGateOpens(button: HTMLButtonElement) {
+		if (this.gateOpen) return;
+		if (this.opts.gatedNext === "hide") button.hidden = true;
+		else button.disabled = true;
 	}
-	/** Go back to previous step. */
-	prev() {
-		this.go(this.index - 1);
+
+	/** Advance to next step (following the current step's `next` branch if defined). */
+	next(): Promise<void> {
+		return this.follow(this.steps[this.index]?.next);
+	}
+	/**
+	 * Go back to the previously visited step. Falls back to the preceding step in
+	 * array order when there is no history (e.g. right after resuming).
+	 */
+	prev(): Promise<void> {
+		const target =
+			this.history.length > 1
+				? this.history[this.history.length - 2]
+				: this.index - 1;
+		return this.show(target, -1, "back");
+	}
+
+	/** True when Back has somewhere to go. */
+	private canGoBack(): boolean {
+		return this.history.length > 1 || this.index > 0;
+	}
+
+	/** Update the visited history when step `i` is shown. */
+	private recordVisit(i: number, record: "push" | "back") {
+		const h = this.history;
+		if (record === "back") {
+			while (h.length && h[h.length - 1] !== i) h.pop();
+		}
+		if (h[h.length - 1] !== i) h.push(i);
+	}
+
+	/** Build the predicate / resolver context for step `index`. */
+	private stepContext(index: number): WalkthroughStepContext {
+		return { index, step: this.steps[index], api: this };
+	}
+
+	/** Index of the step with the given `id` (-1 if unknown). */
+	private indexOfId(id: string): number {
+		return this.steps.findIndex((s) => s.id === id);
+	}
+
+	/**
+	 * Find the first step from `i` (moving in `dir`) whose `when` predicate passes.
+	 * Returns -1 if none is eligible before leaving the step range.
+	 */
+	private async firstEligible(i: number, dir: 1 | -1): Promise<number> {
+		for (let j = i; j >= 0 && j < this.steps.length; j += dir) {
+			const { when } = this.steps[j];
+			if (!when) return j;
+			let ok = false;
+			try {
+				ok = await when(this.stepContext(j));
+			} catch (error) {
+				this.reportError(error, "when");
+			}
+			if (!this.active) return -1;
+			if (ok) return j;
+			recordDebug(
+				"walkthrough",
+				"condition-skip",
+				this.opts.tourId || "<anon>",
+				{ index: j },
+			);
+		}
+		return -1;
+	}
+
+	/** Navigate via a branch spec (step id / resolver); falls back to the following step. */
+	private async follow(spec: WalkthroughStepNext | undefined): Promise<void> {
+		if (!this.active) return;
+		let id: string | undefined;
+		try {
+			id =
+				typeof spec === "function"
+					? await spec(this.stepContext(this.index))
+					: spec;
+		} catch (error) {
+			this.reportError(error, "next");
+			return;
+		}
+		if (id == null) return this.show(this.index + 1, 1);
+		const target = this.indexOfId(id);
+		if (target < 0) {
+			this.reportError(new Error(`Unknown step id: ${id}`), "next");
+			return;
+		}
+		return this.show(target, 1);
+	}
+
+	/** True when Next from the current step would end the tour. */
+	private isLastStep(): boolean {
+		const step = this.steps[this.index];
+		return this.index === this.steps.length - 1 && step?.next == null;
 	}
 
 	/**
@@ -417,6 +1404,8 @@ export class Walkthrough {
 			finalIndex: this.index,
 		});
 		this.opts.onFinish();
+		this.events.emit("finish", { index: this.index });
+		this.settle("finished");
 	}
 	/**
 	 * Abort the walkthrough (fires `onSkip` with a reason token; does NOT mark completed).
@@ -430,44 +1419,91 @@ export class Walkthrough {
 			index: this.index,
 		});
 		this.opts.onSkip(reason);
+		this.events.emit("skip", { index: this.index, reason });
+		this.settle("skipped", reason);
 	}
 
-	/** Hard teardown: remove DOM & listeners without firing callbacks or marking progress. */
+	/**
+	 * Hard teardown: remove DOM & listeners without firing callbacks or marking progress.
+	 * Emits `destroy` only when an active tour was actually torn down.
+	 */
 	destroy() {
+		const wasActive = this.active;
 		this.cleanup();
 		recordDebug("walkthrough", "destroy", this.opts.tourId || "<anon>");
+		if (!wasActive) return;
+		this.events.emit("destroy", { index: this.index });
+		this.settle("destroyed");
 	}
 
 	/**
-	 * Attempt to resolve a DOM element for a step, polling until found or timeout.
+	 * Attempt to resolve the DOM element(s) for a step, waiting (see `waitStrategy`) until every
+	 * target matches in the required `waitFor` state or the timeout elapses (partial matches are
+	 * returned at the deadline). `stable` targets are then sampled until their boxes stop moving
+	 * within the remaining wait time; targets still moving at the deadline resolve to none.
 	 * Fast path: when effective wait is 0 only a single synchronous query is performed.
+	 * Rejects with an `AbortError` when `signal` is aborted.
 	 */
-	private async resolveElement(
+	private async resolveElements(
 		step: InternalStep,
-	): Promise<HTMLElement | null> {
+		signal?: AbortSignal,
+	): Promise<HTMLElement[]> {
+		const targets = targetsOf(step);
+		if (!targets.length) return [];
+		const state = step.waitFor ?? this.opts.waitFor;
+		const query = () => {
+			const found = new Set<HTMLElement>();
+			let complete = true;
+			for (const target of targets) {
+				const matches = queryTarget(target, !!step.selectAll).filter((el) =>
+					meetsTargetState(el, state),
+				);
+				if (!matches.length) complete = false;
+				for (const el of matches) found.add(el);
+			}
+			return { elements: [...found], complete };
+		};
 		const waitMs = Math.max(
 			0,
 			step.waitMs == null ? this.opts.stepWaitMs : step.waitMs,
 		);
 		// Fast path: no waiting requested -> single immediate lookup
-		if (waitMs === 0) {
-			return (
-				(document.querySelector(step.selector) as HTMLElement | null) || null
-			);
-		}
+		if (waitMs === 0) return query().elements;
 		const deadline = Date.now() + waitMs;
-		const poll = Math.max(1, this.opts.stepPollIntervalMs);
-		while (Date.now() <= deadline) {
-			const el = document.querySelector(step.selector) as HTMLElement | null;
-			if (el) return el;
-			await new Promise((r) => setTimeout(r, poll));
+		let last: HTMLElement[] = [];
+		const found = await waitFor(
+			() => {
+				const { elements, complete } = query();
+				last = elements;
+				return complete && elements;
+			},
+			{
+				timeout: waitMs,
+				signal,
+				strategy: this.opts.waitStrategy,
+				interval: this.opts.stepPollIntervalMs,
+				// Visibility also changes through layout / styles the observer cannot see
+				pollFallback:
+					state !== "attached" || targets.some(isUnobservableTarget),
+			},
+		);
+		const elements = found ?? last;
+		if (state === "stable" && elements.length) {
+			const settled = await waitForStable(elements, {
+				timeout: Math.max(0, deadline - Date.now()),
+				signal,
+			});
+			if (!settled) return [];
 		}
-		return null;
+		return elements;
 	}
 
-	/** Lazily build overlay DOM (idempotent). */
+	/** Lazily build overlay DOM (idempotent; a restart re-attaches the overlay removed on teardown). */
 	private buildDom() {
-		if (this.root) return;
+		if (this.root) {
+			if (!this.root.isConnected) document.body.appendChild(this.root);
+			return;
+		}
 		const root = document.createElement("div");
 		root.className = "wt-root";
 		root.setAttribute("data-walkthrough", "");
@@ -476,14 +1512,17 @@ export class Walkthrough {
 		root.style.zIndex = String(this.opts.zIndex);
 		root.style.pointerEvents = "none";
 		// Inject styles once (only for default theme)
-		if (
-			this.opts.theme === "default" &&
-			!document.getElementById("__walkthrough_styles")
-		) {
-			const style = document.createElement("style");
-			style.id = "__walkthrough_styles";
-			style.textContent = this.generateStyles();
-			document.head.appendChild(style);
+		if (this.opts.theme === "default") injectDefaultStyles();
+		// Motion hooks apply to every theme
+		if (this.opts.transition !== "none") {
+			root.classList.add("wt-animate", `wt-animate-${this.opts.transition}`);
+			root.style.setProperty("--wt-duration", `${this.opts.transitionMs}ms`);
+			if (!document.getElementById("__walkthrough_motion")) {
+				const style = document.createElement("style");
+				style.id = "__walkthrough_motion";
+				style.textContent = Walkthrough.MOTION_STYLES;
+				document.head.appendChild(style);
+			}
 		}
 
 		const makePart = (cls: string) => {
@@ -499,12 +1538,45 @@ export class Walkthrough {
 			if (this.opts.overlayClass)
 				d.classList.add(...this.opts.overlayClass.split(/\s+/).filter(Boolean));
 			d.style.pointerEvents = this.opts.advanceOnOverlayClick ? "auto" : "none";
+			if (this.opts.backdropBlur > 0) {
+				const blur = `blur(${this.opts.backdropBlur}px)`;
+				d.style.setProperty("backdrop-filter", blur);
+				d.style.setProperty("-webkit-backdrop-filter", blur);
+			}
 			return d;
 		};
-		const top = makePart("wt-top");
-		const left = makePart("wt-left");
-		const right = makePart("wt-right");
-		const bottom = makePart("wt-bottom");
+		let panels: BackdropPanels | undefined;
+		let mask: HTMLDivElement | undefined;
+		if (this.opts.mode === "beacon") {
+			// Non-blocking: no backdrop at all
+		} else if (this.opts.backdrop === "mask" && supportsPathClip()) {
+			mask = makePart("wt-backdrop");
+			mask.style.inset = "0px";
+			mask.style.width = "100%";
+			mask.style.height = "100%";
+		} else {
+			panels = {
+				top: makePart("wt-top"),
+				left: makePart("wt-left"),
+				right: makePart("wt-right"),
+				bottom: makePart("wt-bottom"),
+			};
+		}
+		const backdropParts: HTMLDivElement[] = mask
+			? [mask]
+			: panels
+				? Object.values(panels)
+				: [];
+		const shield = document.createElement("div");
+		shield.className = "wt-shield";
+		shield.style.position = "fixed";
+		shield.style.pointerEvents = "auto";
+		shield.style.display = "none";
+		shield.addEventListener("click", (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			if (this.opts.advanceOnTargetClick) this.nextIfOpen();
+		});
 		const ring = document.createElement("div");
 		ring.className = "wt-ring";
 		ring.style.position = "fixed";
@@ -526,6 +1598,8 @@ export class Walkthrough {
 		}
 		if (this.opts.ringClass)
 			ring.classList.add(...this.opts.ringClass.split(/\s+/).filter(Boolean));
+		// Beacon tours highlight nothing: the hotspot replaces the ring like it replaces the backdrop
+		if (this.opts.mode === "beacon") ring.style.display = "none";
 
 		const tooltip = document.createElement("div");
 		tooltip.className = "wt-tooltip";
@@ -567,22 +1641,55 @@ export class Walkthrough {
 		live.style.pointerEvents = "none";
 		root.appendChild(live);
 
-		[top, left, right, bottom, ring, tooltip].forEach((p) =>
+		const beacon =
+			this.opts.mode === "beacon" ? this.createBeacon() : undefined;
+
+		[...backdropParts, shield, ring, tooltip].forEach((p) =>
 			root.appendChild(p),
 		);
+		if (beacon) root.appendChild(beacon);
 		document.body.appendChild(root);
 		this.root = root;
-		this.overlayParts = { top, left, right, bottom, ring, tooltip, live };
+		this.overlayParts = {
+			panels,
+			mask,
+			ring,
+			extraRings: [],
+			shield,
+			beacon,
+			tooltip,
+			live,
+		};
 
 		if (this.opts.alwaysOnTop) this.ensureRootOnTop();
 
 		if (this.opts.advanceOnOverlayClick) {
-			[top, left, right, bottom].forEach((d) =>
-				d.addEventListener("click", () => this.next()),
+			backdropParts.forEach((d) =>
+				d.addEventListener("click", () => this.nextIfOpen()),
 			);
 		}
 	}
 
+	/** Build the pulsing `mode: 'beacon'` hotspot. */
+	private createBeacon(): HTMLButtonElement {
+		const beacon = document.createElement("button");
+		beacon.type = "button";
+		beacon.className = "wt-beacon";
+		beacon.style.position = "fixed";
+		beacon.style.pointerEvents = "auto";
+		beacon.style.display = "none";
+		beacon.setAttribute("aria-expanded", "false");
+		if (this.opts.theme === "tailwind")
+			beacon.classList.add(
+				"size-4",
+				"rounded-full",
+				"bg-primary",
+				"animate-pulse",
+			);
+		beacon.addEventListener("click", () => this.openBeacon());
+		return beacon;
+	}
+
 	/** Ensure root remains the last <body> child (z-order correctness). */
 	private ensureRootOnTop() {
 		if (!this.root) return;
@@ -592,38 +1699,183 @@ export class Walkthrough {
 		}
 	}
 
-	/** Generate injected stylesheet (default theme only). */
-	private generateStyles(): string {
-		return `
-    .wt-root { font-family: system-ui,-apple-system,"Segoe UI",Roboto,Helvetica,Arial,sans-serif; }
-    .wt-tooltip { background: #111827EE; color: #f9fafb; border: 1px solid #374151; border-radius: 10px; padding: 16px 18px; box-shadow: 0 8px 28px -6px rgba(0,0,0,.55); }
-    .wt-tooltip h3 { margin: 0 0 4px; font-size: 16px; font-weight: 600; }
-    .wt-tooltip .wt-content { font-size: 14px; line-height: 1.4; }
-    .wt-tooltip .wt-nav { display:flex; gap:8px; justify-content: flex-end; }
-    .wt-tooltip button { all:unset; font:inherit; background:#6366f1; color:#fff; padding:6px 14px; border-radius:6px; cursor:pointer; font-size:13px; font-weight:500; box-shadow:0 2px 4px rgba(0,0,0,.25); }
-    .wt-tooltip button:hover { background:#4f46e5; }
-    .wt-tooltip button.wt-secondary { background:#374151; }
-    .wt-tooltip button.wt-secondary:hover { background:#4b5563; }
-    @media(prefers-color-scheme:light){
-      .wt-tooltip { background:#ffffffF2; color:#111827; border-color:#e5e7eb; }
-      .wt-tooltip button.wt-secondary { background:#e5e7eb; color:#111827; }
-      .wt-tooltip button.wt-secondary:hover { background:#d1d5db; }
+	/** Transition styles keyed off the `wt-animate*` root classes (injected for any theme). */
+	private static MOTION_STYLES = `
+    .wt-animate .wt-tooltip { transition: opacity var(--wt-duration) ease, transform var(--wt-duration) ease; }
+    .wt-animate .wt-tooltip.wt-entering, .wt-animate .wt-tooltip.wt-leaving { opacity: 0; }
+    .wt-animate-slide .wt-tooltip.wt-entering { transform: translateY(8px); }
+    .wt-animate-slide .wt-tooltip.wt-leaving { transform: translateY(-8px); }
+    .wt-animate .wt-backdrop { transition: clip-path var(--wt-duration) ease; }
+    .wt-animate .wt-top, .wt-animate .wt-left, .wt-animate .wt-right, .wt-animate .wt-bottom { transition: top var(--wt-duration) ease, left var(--wt-duration) ease, width var(--wt-duration) ease, height var(--wt-duration) ease; }
+    .wt-animate .wt-ring { transition: all var(--wt-duration) cubic-bezier(.4,0,.2,1); }
+    @media (prefers-reduced-motion: reduce) {
+      .wt-root, .wt-root * { transition: none !important; animation: none !important; }
     }
     `;
+
+	/**
+	 * Install the step's `advanceOn` listeners / predicate watchers. Everything is torn down
+	 * through `signal` (aborted by the next navigation or teardown).
+	 */
+	private armAdvanceOn(step: InternalStep, signal: AbortSignal) {
+		const specs = step.advanceOn == null ? [] : [step.advanceOn].flat();
+		this.gateOpen = specs.length === 0;
+		if (!specs.length) return;
+		let met = false;
+		const unlock = (advance = true) => {
+			if (met || signal.aborted) return;
+			met = true;
+			this.gateOpen = true;
+			const { tooltip } = this.overlayParts;
+			const selector = ".wt-next, .wt-choice";
+			const locked = tooltip.querySelectorAll<HTMLButtonElement>(selector);
+			for (const button of locked) {
+				button.disabled = false;
+				button.hidden = false;
+			}
+			recordDebug("walkthrough", "advance-on", this.opts.tourId || "<anon>", {
+				index: this.index,
+			});
+			if (advance) this.next();
+		};
+		for (const raw of specs) {
+			const spec = typeof raw === "string" ? { event: raw } : raw;
+			if ("until" in spec) {
+				this.watchPredicate(step, spec, signal, () => unlock(spec.advance));
+				continue;
+			}
+			const where = spec.target;
+			const scope = where === "window" || where === "document" ? where : null;
+			// Re-resolved per event: the target may render after the step
+			const resolve = () =>
+				where == null || scope
+					? step._el
+					: (queryTarget(where, false)[0] ?? null);
+			const el = resolve();
+			let listenOn: EventTarget = el?.ownerDocument ?? document;
+			if (scope) listenOn = scope === "window" ? window : document;
+			listenOn.addEventListener(
+				spec.event,
+				(event) => {
+					if (!scope) {
+						const current = resolve();
+						if (!current || !event.composedPath().includes(current)) return;
+					}
+					try {
+						if (spec.filter && !spec.filter(event)) return;
+					} catch (error) {
+						this.reportError(error, "advanceOn");
+						return;
+					}
+					unlock(spec.advance);
+				},
+				// Capture so non-bubbling events (focus, blur, ...) on the target are seen too
+				{ capture: true, signal },
+			);
+		}
 	}
 
-	/** Render highlight + tooltip for a resolved step element. */
-	private renderStep(step: InternalStep) {
-		if (!step._el) return;
-		const padding = step.padding ?? 8;
-		this.positionHighlight(step._el, padding);
+	/** Re-check an `advanceOn.until` predicate on mutations, input events and an interval. */
+	private watchPredicate(
+		step: InternalStep,
+		spec: Extract<WalkthroughAdvanceOn, { until: unknown }>,
+		signal: AbortSignal,
+		onMet: () => void,
+	) {
+		const ctx: WalkthroughStepContext = { index: this.index, step, api: this };
+		let running = false;
+		let reported = false;
+		const check = async () => {
+			if (running || signal.aborted) return;
+			running = true;
+			try {
+				if (await spec.until(ctx)) onMet();
+			} catch (error) {
+				if (!reported) this.reportError(error, "advanceOn");
+				reported = true;
+			} finally {
+				running = false;
+			}
+		};
+		for (const type of ["input", "change"])
+			document.addEventListener(type, check, { capture: true, signal });
+		const observer =
+			typeof MutationObserver === "undefined"
+				? undefined
+				: new MutationObserver(check);
+		observer?.observe(document, {
+			childList: true,
+			subtree: true,
+			attributes: true,
+			characterData: true,
+		});
+		const timer = setInterval(
+			check,
+			Math.max(16, spec.interval ?? this.opts.stepPollIntervalMs),
+		);
+		signal.addEventListener(
+			"abort",
+			() => {
+				observer?.disconnect();
+				clearInterval(timer);
+			},
+			{ once: true },
+		);
+		void check();
+	}
+
+	/** Effective transition duration: 0 when `transition` is off or the user prefers reduced motion. */
+	private motionMs(): number {
+		if (this.opts.transition === "none" || prefersReducedMotion()) return 0;
+		return this.opts.transitionMs;
+	}
+
+	/** Fade / slide the current tooltip out and wait for it (bounded by `transitionMs`). */
+	private async playExit(signal: AbortSignal) {
+		const ms = this.motionMs();
+		const { tooltip } = this.overlayParts;
+		if (!ms || !tooltip?.childElementCount || tooltip.hidden) return;
+		tooltip.classList.remove("wt-entering");
+		tooltip.classList.add("wt-leaving");
+		await afterTransition(tooltip, ms, signal);
+	}
+
+	/** Render in the `wt-entering` state, then drop it on the next frame so CSS animates the entry. */
+	private playEnter(render: () => void) {
+		const { tooltip } = this.overlayParts;
+		if (!this.motionMs()) {
+			tooltip.classList.remove("wt-leaving", "wt-entering");
+			render();
+			return;
+		}
+		tooltip.classList.remove("wt-leaving");
+		tooltip.classList.add("wt-entering");
+		render();
+		// Force a style flush so the entering state is committed before it is removed
+		void tooltip.offsetWidth;
+		nextFrame(() => tooltip.classList.remove("wt-entering"));
+	}
+
+	/** Render highlight + tooltip for a resolved step element (or a centered targetless step). */
+	private renderStep(step: InternalStep, signal: AbortSignal) {
+		this.watchFrames(step._els ?? []);
+		const beacon = this.opts.mode === "beacon";
+		// Centered steps have nothing to pin a beacon to and open right away
+		if (beacon) this.beaconOpen = !step._el;
+		if (step._el) this.positionHighlight(step);
+		else if (!isCenteredStep(step)) return;
+		else if (!beacon) this.coverBackdrop();
+		else if (this.overlayParts.beacon)
+			this.overlayParts.beacon.style.display = "none";
 		this.renderTooltip(step);
+		if (beacon) this.collapseOnOutsideClick(signal);
+		if (!step._el) return;
 		if (step.focus) {
 			try {
 				step._el.focus();
 			} catch {}
 		}
-		if (this.opts.scrollIntoView && step._el) {
+		if (this.opts.scrollIntoView && !beacon && step._el) {
 			try {
 				step._el.scrollIntoView(
 					this.opts.scrollOptions || {
@@ -634,25 +1886,126 @@ export class Walkthrough {
 				);
 			} catch {}
 		}
+		// Listeners live as long as the step (removed on navigation / teardown via `signal`)
+		const interaction = this.interactionOf(step);
+		if (interaction !== "block") this.followTargets(step, signal);
+		if (interaction === "allow-and-track") this.trackInteraction(step, signal);
+		// Last, so a tracked click is reported as `step:interaction` before it moves the tour on
 		if (this.opts.advanceOnTargetClick) {
-			const listener = () => {
-				step._el?.removeEventListener("click", listener);
-				this.next();
-			};
-			step._el.addEventListener("click", listener, { once: true });
+			step._el.addEventListener("click", () => this.nextIfOpen(), { signal });
+		}
+	}
+
+	/** Effective interaction mode for a step. */
+	private interactionOf(step: WalkthroughStep): WalkthroughInteraction {
+		return step.interaction ?? this.opts.interaction;
+	}
+
+	/** Keep the highlight glued to targets that resize while the user works with them. */
+	private followTargets(step: InternalStep, signal: AbortSignal) {
+		const elements = step._els ?? [];
+		for (const el of elements) {
+			el.addEventListener("input", this.resizeHandler, { signal });
+		}
+		if (typeof ResizeObserver === "undefined") return;
+		const observer = new ResizeObserver(() => this.reposition());
+		for (const el of elements) observer.observe(el);
+		signal.addEventListener("abort", () => observer.disconnect(), {
+			once: true,
+		});
+	}
+
+	/** Emit `step:interaction` for user input on the highlighted element(s). */
+	private trackInteraction(step: InternalStep, signal: AbortSignal) {
+		const index = this.index;
+		for (const element of step._els ?? []) {
+			for (const type of ["click", "input", "change", "focusin", "submit"]) {
+				element.addEventListener(
+					type,
+					(event) =>
+						this.events.emit("step:interaction", {
+							index,
+							step,
+							type,
+							event,
+							element,
+						}),
+					{ signal },
+				);
+			}
+		}
+	}
+
+	/** Listen for scrolling inside every (nested) iframe that contains one of `elements`. */
+	private watchFrames(elements: HTMLElement[]) {
+		for (const win of this.frameWindows)
+			win.removeEventListener("scroll", this.scrollHandler, true);
+		this.frameWindows = [];
+		for (const el of elements) {
+			let win: Window | null = el.ownerDocument.defaultView;
+			while (win && win !== window && !this.frameWindows.includes(win)) {
+				win.addEventListener("scroll", this.scrollHandler, true);
+				this.frameWindows.push(win);
+				win = win.parent === win ? null : win.parent;
+			}
 		}
 	}
 
-	/** Position the dark overlay panels + highlight ring around the target. */
-	private positionHighlight(el: HTMLElement, padding: number) {
+	/** Position the backdrop (mask or panels) + highlight ring(s) around the step target(s). */
+	private positionHighlight(step: InternalStep) {
 		if (!hasDOM || typeof window === "undefined") return; // SSR safety
-		const rect = el.getBoundingClientRect();
-		const p = padding;
-		const x = rect.left - p;
-		const y = rect.top - p;
-		const w = rect.width + p * 2;
-		const h = rect.height + p * 2;
-		const { top, left, right, bottom, ring } = this.overlayParts;
+		if (this.opts.mode === "beacon") return this.positionBeacon(step);
+		const p = step.padding ?? 8;
+		const boxes: CutoutBox[] = (step._els?.length ? step._els : [step._el])
+			.filter((el): el is HTMLElement => !!el)
+			.map((el) => {
+				const rect = viewportRect(el);
+				return {
+					x: rect.left - p,
+					y: rect.top - p,
+					width: rect.width + p * 2,
+					height: rect.height + p * 2,
+				};
+			});
+		const union = unionBox(boxes);
+		if (!union) return;
+		const { panels, mask, ring, shield } = this.overlayParts;
+		ring.style.display = "";
+		shield.style.display = this.interactionOf(step) === "block" ? "" : "none";
+		shield.style.top = `${union.y}px`;
+		shield.style.left = `${union.x}px`;
+		shield.style.width = `${union.width}px`;
+		shield.style.height = `${union.height}px`;
+		if (mask) {
+			// Panels can only cut one rectangle, so `separate` is mask only
+			const holes = (
+				step.highlight === "separate" ? mergeOverlapping(boxes) : [union]
+			).map((box) =>
+				cutoutGeometry(
+					box,
+					step.cutout ?? this.opts.cutout,
+					step.cutoutRadius ?? this.opts.cutoutRadius,
+				),
+			);
+			const viewport = { width: window.innerWidth, height: window.innerHeight };
+			const path = cutoutPath(viewport, holes, this.motionMs() > 0);
+			mask.style.clipPath = `path(evenodd, '${path}')`;
+			// Rings follow the holes so their corners match the cutout shape
+			const rings = [ring, ...this.syncExtraRings(holes.length - 1)];
+			holes.forEach((hole, i) => {
+				const r = rings[i];
+				r.style.top = `${hole.y}px`;
+				r.style.left = `${hole.x}px`;
+				r.style.width = `${hole.width}px`;
+				r.style.height = `${hole.height}px`;
+				r.style.borderRadius = `${hole.radius}px`;
+			});
+			return;
+		}
+		this.syncExtraRings(0);
+		if (!panels) return;
+		const { x, y, width: w, height: h } = union;
+		const { top, left, right, bottom } = panels;
 		top.style.top = "0px";
 		top.style.left = "0px";
 		top.style.width = "100%";
@@ -663,48 +2016,158 @@ export class Walkthrough {
 		left.style.height = `${h}px`;
 		right.style.top = `${y}px`;
 		right.style.left = `${x + w}px`;
-		if (hasDOM) {
-			right.style.width = `${Math.max(0, window.innerWidth - (x + w))}px`;
-		}
+		right.style.width = `${Math.max(0, window.innerWidth - (x + w))}px`;
 		right.style.height = `${h}px`;
 		bottom.style.top = `${y + h}px`;
 		bottom.style.left = "0px";
 		bottom.style.width = "100%";
-		if (hasDOM) {
-			bottom.style.height = `${Math.max(0, window.innerHeight - (y + h))}px`;
-		}
+		bottom.style.height = `${Math.max(0, window.innerHeight - (y + h))}px`;
 		ring.style.top = `${y}px`;
 		ring.style.left = `${x}px`;
 		ring.style.width = `${w}px`;
 		ring.style.height = `${h}px`;
-		if (typeof window === "undefined") return; // Defensive check for window
 	}
 
-	/** Build & mount tooltip content for the current step. */
-	private renderTooltip(step: InternalStep) {
+	/** Ensure exactly `count` extra rings are mounted (after the primary ring) and return them. */
+	private syncExtraRings(count: number): HTMLDivElement[] {
+		const { ring, extraRings } = this.overlayParts;
+		while (extraRings.length > count) extraRings.pop()?.remove();
+		while (extraRings.length < count) {
+			const clone = ring.cloneNode(false) as HTMLDivElement;
+			clone.classList.add("wt-ring-extra");
+			(extraRings.at(-1) ?? ring).after(clone);
+			extraRings.push(clone);
+		}
+		return extraRings;
+	}
+
+	/** Full-screen backdrop without a cutout (targetless / centered steps). */
+	private coverBackdrop() {
+		const { panels, mask, ring, shield } = this.overlayParts;
+		ring.style.display = "none";
+		shield.style.display = "none";
+		this.syncExtraRings(0);
+		if (mask) {
+			mask.style.clipPath = "none";
+			return;
+		}
+		if (!panels) return;
+		const { top, left, right, bottom } = panels;
+		top.style.top = "0px";
+		top.style.left = "0px";
+		top.style.width = "100%";
+		top.style.height = "100%";
+		for (const part of [left, right, bottom]) {
+			part.style.width = "0px";
+			part.style.height = "0px";
+		}
+	}
+
+	/**
+	 * Evaluate function `title` / `content` for the step being shown. Synchronous results are
+	 * ready for the first render; async ones re‑render the tooltip when they settle (unless the
+	 * user moved on). Failures are reported through the `error` event.
+	 */
+	private loadStepText(step: InternalStep, index: number, signal: AbortSignal) {
+		const text: typeof this.stepText = {};
+		this.stepText = text;
+		for (const key of ["title", "content"] as const) {
+			const source = step[key];
+			if (typeof source !== "function") continue;
+			const fail = (error: unknown) => {
+				text[key] = { status: "error" };
+				this.reportError(error, key);
+			};
+			let result: WalkthroughTextValue | Promise<WalkthroughTextValue>;
+			try {
+				result = source({ index, step, api: this });
+			} catch (error) {
+				fail(error);
+				continue;
+			}
+			if (!isPromiseLike<WalkthroughTextValue>(result)) {
+				text[key] = { status: "ready", value: result };
+				continue;
+			}
+			text[key] = { status: "loading" };
+			Promise.resolve(result).then(
+				(value) => {
+					if (signal.aborted || this.stepText !== text) return;
+					text[key] = { status: "ready", value };
+					this.refreshTooltip();
+				},
+				(error) => {
+					if (signal.aborted || this.stepText !== text) return;
+					fail(error);
+					this.refreshTooltip();
+				},
+			);
+		}
+	}
+
+	/** Current value of a step `title` / `content` (static text is localized, functions read {@link stepText}). */
+	private textOf(
+		step: InternalStep,
+		key: "title" | "content",
+		locale: string,
+	): WalkthroughTextValue | undefined {
+		const source = step[key];
+		if (typeof source !== "function") return localize(source, locale);
+		const state = this.stepText[key];
+		return state?.status === "ready" ? state.value : undefined;
+	}
+
+	/**
+	 * Build & mount tooltip content for the current step. A `refresh` re-renders in place and
+	 * leaves focus alone unless it was on tooltip content that is being replaced.
+	 */
+	private renderTooltip(step: InternalStep, refresh = false) {
 		const { tooltip, live } = this.overlayParts;
+		const keepFocus = refresh && !tooltip.contains(document.activeElement);
 		tooltip.innerHTML = "";
-		live.textContent = step.title || "";
+		tooltip.classList.toggle("wt-centered", !step._el);
+		const locale = this.opts.locale ?? getLocale();
+		const labels = this.labelsFor(step);
+		const title = this.textOf(step, "title", locale);
+		const content = this.textOf(step, "content", locale);
+		const loading = Object.values(this.stepText).some(
+			(t) => t.status === "loading",
+		);
+		const contentState = this.stepText.content?.status;
+		tooltip.setAttribute("aria-busy", String(loading));
+		live.textContent =
+			(typeof title === "string" ? title : title?.textContent) || "";
+		this.overlayParts.beacon?.setAttribute(
+			"aria-label",
+			live.textContent || labels.beacon,
+		);
+		// Flex rows (nav, choices, dots) mirror automatically under dir="rtl"
+		const direction = this.directionOf(step);
+		tooltip.dir = direction;
 		let firstFocusableBefore: HTMLElement | null = null;
 
 		const defaultNav = () => {
 			const nav = document.createElement("div");
 			nav.className = "wt-nav";
-			if (this.index > 0) {
+			if (this.canGoBack()) {
 				const back = document.createElement("button");
 				back.className = "wt-secondary";
-				back.textContent = "Back";
+				back.textContent = labels.back;
 				back.addEventListener("click", () => this.prev());
 				nav.appendChild(back);
 			}
 			const skip = document.createElement("button");
 			skip.className = "wt-secondary";
-			skip.textContent = "Skip";
+			skip.textContent = labels.skip;
 			skip.addEventListener("click", () => this.skip("user-skip"));
 			nav.appendChild(skip);
+			// Branch choices replace the linear Next button
+			if (step.choices?.length) return nav;
 			const next = document.createElement("button");
-			const last = this.index === this.steps.length - 1;
-			next.textContent = last ? "Done" : "Next";
+			next.className = "wt-next";
+			this.lockUntilGateOpens(next);
+			const last = this.isLastStep();
+			next.textContent = last ? labels.done : labels.next;
 			next.addEventListener("click", () =>
 				last ? this.finish() : this.next(),
 			);
@@ -712,6 +2175,23 @@ export class Walkthrough {
 			return nav;
 		};
 
+		const defaultChoices = () => {
+			if (!step.choices?.length) return null;
+			const wrap = document.createElement("div");
+			wrap.className = "wt-choices";
+			for (const choice of step.choices) {
+				const btn = document.createElement("button");
+				btn.className = "wt-choice";
+				btn.textContent = localize(choice.label, locale) ?? "";
+				this.lockUntilGateOpens(btn);
+				btn.addEventListener("click", () => {
+					if (this.gateOpen) this.follow(choice.next);
+				});
+				wrap.appendChild(btn);
+			}
+			return wrap;
+		};
+
 		if (this.opts.customTooltip) {
 			const custom = this.opts.customTooltip({
 				step,
@@ -719,32 +2199,63 @@ export class Walkthrough {
 				total: this.steps.length,
 				api: this,
 				defaultNav,
+				defaultChoices,
+				defaultProgress: () => this.buildProgress(),
+				title: typeof title === "string" ? title : undefined,
+				content: typeof content === "string" ? content : undefined,
+				titleNode: typeof title === "string" ? undefined : title,
+				contentNode: typeof content === "string" ? undefined : content,
+				loading,
+				labels,
+				direction,
 			});
 			tooltip.appendChild(custom);
 		} else {
-			if (step.title) {
+			if (title) {
 				const h = document.createElement("h3");
-				h.textContent = step.title;
+				if (typeof title === "string") h.textContent = title;
+				else h.appendChild(title);
 				tooltip.appendChild(h);
 			}
-			if (step.content) {
+			if (content) {
 				const c = document.createElement("div");
 				c.className = "wt-content";
-				// Sanitize by default to mitigate XSS when content originates from untrusted sources.
-				c.innerHTML = step.allowUnsafeHTML
-					? step.content
-					: sanitizeHTML(step.content);
+				if (typeof content !== "string") c.appendChild(content);
+				else this.fillContent(c, step, content);
+				tooltip.appendChild(c);
+			} else if (contentState === "loading" || contentState === "error") {
+				const c = document.createElement("div");
+				c.className = `wt-content wt-${contentState === "loading" ? "loading" : "load-error"}`;
+				c.textContent =
+					contentState === "loading" ? labels.loading : labels.loadError;
 				tooltip.appendChild(c);
 			}
+			const choices = defaultChoices();
+			if (choices) tooltip.appendChild(choices);
 			tooltip.appendChild(defaultNav());
+			// After the nav so initial focus still lands on Back / Skip
+			const progress = this.buildProgress();
+			if (progress) tooltip.appendChild(progress);
 		}
 
-		if (step._el) {
-			this.positionTooltip(step._el, tooltip);
+		if (this.opts.arrow && step._el) tooltip.appendChild(this.createArrow());
+		const beacon = this.opts.mode === "beacon";
+		if (beacon) {
+			// Collapsed beacons leave the page alone: no tooltip and no focus move
+			const display = this.opts.theme === "unstyled" ? "" : "flex";
+			tooltip.hidden = !this.beaconOpen;
+			tooltip.style.display = this.beaconOpen ? display : "none";
+			if (!this.beaconOpen) return;
 		}
-		if (!this.opts.disableFocusTrap) {
+		this.positionTooltip(step._el ?? null, tooltip);
+		// Beacon tours are non-blocking, so they never trap focus
+		if (!this.opts.disableFocusTrap && !beacon) {
 			this.setupFocusTrap(tooltip);
 		}
+		// e.g. async content settling while the user types into the target
+		if (keepFocus) return;
+		// Leave focus on an interactive target the step asked to focus (e.g. a form field)
+		if (step.focus && step._el && this.interactionOf(step) !== "block") return;
 		// Focus first button/link else container
 		const focusables = tooltip.querySelectorAll<HTMLElement>(
 			Walkthrough.FOCUSABLE_SEL,
@@ -758,6 +2269,167 @@ export class Walkthrough {
 		}
 	}
 
+	/** Insert a `content` string according to the step's `contentFormat`. */
+	private fillContent(el: HTMLElement, step: InternalStep, content: string) {
+		const format = step.contentFormat ?? this.opts.contentFormat;
+		el.classList.add(`wt-content-${format}`);
+		if (format === "text") el.textContent = content;
+		// Markdown output is sanitized unconditionally so authored copy never needs allowUnsafeHTML
+		else if (format === "markdown")
+			el.innerHTML = sanitizeHTML(renderMarkdown(content));
+		// Sanitize by default to mitigate XSS when content originates from untrusted sources.
+		else el.innerHTML = step.allowUnsafeHTML ? content : sanitizeHTML(content);
+	}
+
+	/** Effective tooltip labels for a step: locale bundle, then tour, then step overrides. */
+	private labelsFor(step?: WalkthroughStep): WalkthroughLabels {
+		return resolveLabels(
+			this.opts.locale ?? getLocale(),
+			this.opts.labels,
+			step?.labels,
+		);
+	}
+
+	/** Whether the tour hides body overflow while active (never in beacon mode). */
+	private locksScroll(): boolean {
+		return !this.opts.allowBodyScroll && this.opts.mode !== "beacon";
+	}
+
+	/** Pin the beacon to the target's top inline‑end corner. */
+	private positionBeacon(step: InternalStep) {
+		const { beacon } = this.overlayParts;
+		if (!beacon || !step._el) return;
+		beacon.style.display = this.beaconOpen ? "none" : "";
+		beacon.setAttribute("aria-expanded", String(this.beaconOpen));
+		const rect = viewportRect(step._el);
+		const half = (beacon.offsetWidth || 16) / 2;
+		const rtl = this.directionOf(step) === "rtl";
+		beacon.style.top = `${rect.top - half}px`;
+		beacon.style.left = `${(rtl ? rect.left : rect.left + rect.width) - half}px`;
+	}
+
+	/** Expand the current step's beacon into its tooltip. */
+	openBeacon() {
+		const step = this.steps[this.index];
+		if (!this.active || this.opts.mode !== "beacon" || !step?._el) return;
+		if (this.beaconOpen) return;
+		this.beaconOpen = true;
+		this.positionBeacon(step);
+		this.renderTooltip(step);
+		this.events.emit("beacon:open", { index: this.index, step });
+	}
+
+	/** Collapse the open tooltip back into the beacon (Escape / click outside). */
+	private closeBeacon(focusBeacon = false) {
+		const step = this.steps[this.index];
+		if (!this.beaconOpen || !step?._el) return;
+		this.beaconOpen = false;
+		this.positionBeacon(step);
+		this.renderTooltip(step);
+		if (focusBeacon) this.overlayParts.beacon?.focus();
+	}
+
+	/** Beacon mode is non‑blocking: clicking anywhere else on the page collapses the tooltip. */
+	private collapseOnOutsideClick(signal: AbortSignal) {
+		const { tooltip, beacon } = this.overlayParts;
+		document.addEventListener(
+			"pointerdown",
+			(e) => {
+				const path = e.composedPath();
+				if (path.includes(tooltip) || (beacon && path.includes(beacon))) return;
+				this.closeBeacon();
+			},
+			{ capture: true, signal },
+		);
+	}
+
+	/** Resolved text direction: the `direction` option, else the nearest `dir` of the target or document. */
+	private directionOf(step?: InternalStep): PlacementDirection {
+		if (this.opts.direction !== "auto") return this.opts.direction;
+		const el = step?._el;
+		const doc = el?.ownerDocument ?? document;
+		const dir =
+			el?.closest('[dir="rtl"], [dir="ltr"]')?.getAttribute("dir") ||
+			doc.documentElement.dir ||
+			doc.body?.dir;
+		return dir?.toLowerCase() === "rtl" ? "rtl" : "ltr";
+	}
+
+	/** Re-render the current tooltip in place (e.g. after a locale switch). */
+	private refreshTooltip() {
+		const step = this.steps[this.index];
+		if (!this.active || !step || (!step._el && !isCenteredStep(step))) return;
+		this.renderTooltip(step, true);
+	}
+
+	/** Build the `progress` indicator for the current step (null when disabled). */
+	private buildProgress(): HTMLElement | null {
+		const mode = this.opts.progress;
+		if (mode === "none") return null;
+		const tailwind = this.opts.theme === "tailwind";
+		const labels = this.labelsFor(this.steps[this.index]);
+		const total = this.steps.length;
+		const current = this.index + 1;
+		const wrap = document.createElement("div");
+		wrap.className = `wt-progress wt-progress-${mode}`;
+		if (mode === "fraction") {
+			wrap.textContent = formatLabel(labels.progress, { current, total });
+			if (tailwind) wrap.classList.add("text-xs", "text-muted-foreground");
+			return wrap;
+		}
+		if (mode === "bar") {
+			wrap.setAttribute("role", "progressbar");
+			wrap.setAttribute("aria-valuemin", "1");
+			wrap.setAttribute("aria-valuemax", String(total));
+			wrap.setAttribute("aria-valuenow", String(current));
+			const fill = document.createElement("div");
+			fill.className = "wt-progress-fill";
+			fill.style.width = `${(current / total) * 100}%`;
+			if (tailwind) {
+				wrap.classList.add(
+					"h-1",
+					"overflow-hidden",
+					"rounded-full",
+					"bg-muted",
+				);
+				fill.classList.add("h-full", "bg-primary", "transition-all");
+			}
+			wrap.appendChild(fill);
+			return wrap;
+		}
+		wrap.setAttribute("role", "group");
+		wrap.setAttribute(
+			"aria-label",
+			formatLabel(labels.stepOf, { current, total }),
+		);
+		if (tailwind) wrap.classList.add("flex", "gap-1.5", "justify-center");
+		// Only steps on the visited path (all before the current one) can be revisited
+		const visited = new Set(this.history);
+		this.steps.forEach((_, i) => {
+			const dot = document.createElement("button");
+			dot.type = "button";
+			dot.className = "wt-dot";
+			dot.setAttribute(
+				"aria-label",
+				formatLabel(labels.step, { index: i + 1 }),
+			);
+			if (tailwind) dot.classList.add("h-2", "w-2", "rounded-full", "bg-muted");
+			if (i === this.index) {
+				dot.classList.add("wt-dot-active");
+				dot.setAttribute("aria-current", "step");
+				if (tailwind) dot.classList.replace("bg-muted", "bg-primary");
+			} else if (visited.has(i)) {
+				dot.classList.add("wt-dot-visited");
+				if (tailwind) dot.classList.add("cursor-pointer", "bg-primary/40");
+				dot.addEventListener("click", () => this.show(i, -1, "back"));
+			} else {
+				dot.disabled = true;
+			}
+			wrap.appendChild(dot);
+		});
+		return wrap;
+	}
+
 	private static FOCUSABLE_SEL =
 		'a[href], button:not([disabled]), textarea, input[type="text"], input[type="radio"], input[type="checkbox"], select, [tabindex]:not([tabindex="-1"])';
 
@@ -799,90 +2471,113 @@ export class Walkthrough {
 		this.focusTrapDisposer = undefined;
 	}
 
-	/** Compute and set tooltip coordinates (prefers bottom, top, right, left then clamps). */
-	private positionTooltip(target: HTMLElement, tooltip: HTMLElement) {
+	/** Build the tooltip arrow element (positioned by {@link positionTooltip}). */
+	private createArrow(): HTMLElement {
+		const arrow = document.createElement("div");
+		arrow.className = "wt-arrow";
+		arrow.setAttribute("aria-hidden", "true");
+		arrow.style.position = "absolute";
+		arrow.style.width = `${Walkthrough.ARROW_SIZE}px`;
+		arrow.style.height = `${Walkthrough.ARROW_SIZE}px`;
+		arrow.style.transform = "rotate(45deg)";
+		arrow.style.pointerEvents = "none";
+		if (this.opts.theme === "tailwind")
+			arrow.classList.add("bg-popover", "border");
+		return arrow;
+	}
+
+	private static ARROW_SIZE = 10;
+
+	/**
+	 * Compute and set tooltip coordinates via {@link computePlacement} (step / tour
+	 * `placement` + `offset`, flipping when the preferred side does not fit).
+	 * Without a target the tooltip is centered in the viewport.
+	 */
+	private positionTooltip(target: HTMLElement | null, tooltip: HTMLElement) {
 		if (!hasDOM || typeof window === "undefined") return;
-		const rect = target.getBoundingClientRect();
-		const gap = 14;
 		const tw = tooltip.offsetWidth || 320;
 		const th = tooltip.offsetHeight || 140;
-		// Strategies preference: bottom, top, right, left.
-		let top = rect.bottom + gap;
-		let left = rect.left + (rect.width - tw) / 2;
-		let placed = false;
-		const within = (x: number, y: number) =>
-			x >= 4 &&
-			x + tw <= window.innerWidth - 4 &&
-			y >= 4 &&
-			y + th <= window.innerHeight - 4;
-		// bottom
-		if (within(left, top)) placed = true;
-		// top
-		if (!placed) {
-			const t = rect.top - gap - th;
-			if (within(left, t)) {
-				top = t;
-				placed = true;
-			}
-		}
-		// right
-		if (!placed) {
-			const l = rect.right + gap;
-			const t = rect.top + (rect.height - th) / 2;
-			if (within(l, t)) {
-				left = l;
-				top = t;
-				placed = true;
-			}
-		}
-		// left
-		if (!placed) {
-			const l = rect.left - gap - tw;
-			const t = rect.top + (rect.height - th) / 2;
-			if (within(l, t)) {
-				left = l;
-				top = t;
-				placed = true;
-			}
-		}
-		// fallback clamp
-		if (!placed) {
-			top = Math.min(
-				Math.max(4, rect.bottom + gap),
-				window.innerHeight - th - 4,
-			);
-			left = Math.min(
-				Math.max(4, rect.left + (rect.width - tw) / 2),
-				window.innerWidth - tw - 4,
-			);
+		if (!target) {
+			tooltip.removeAttribute("data-placement");
+			tooltip.style.top = `${Math.max(4, (window.innerHeight - th) / 2)}px`;
+			tooltip.style.left = `${Math.max(4, (window.innerWidth - tw) / 2)}px`;
+			return;
 		}
-		tooltip.style.top = `${top}px`;
-		tooltip.style.left = `${left}px`;
+		const step = this.steps[this.index];
+		const result = computePlacement(
+			viewportRect(target),
+			{ width: tw, height: th },
+			{ width: window.innerWidth, height: window.innerHeight },
+			{
+				placement: step?.placement ?? this.opts.placement,
+				offset: step?.offset ?? this.opts.offset,
+				direction: this.directionOf(step),
+			},
+		);
+		tooltip.style.top = `${result.top}px`;
+		tooltip.style.left = `${result.left}px`;
+		tooltip.setAttribute("data-placement", result.placement);
+		const arrow = tooltip.querySelector<HTMLElement>(":scope > .wt-arrow");
+		if (!arrow) return;
+		// Center the rotated square on the tooltip edge facing the target
+		const half = Walkthrough.ARROW_SIZE / 2;
+		for (const side of ["top", "bottom", "left", "right"] as const)
+			arrow.style[side] = "";
+		arrow.style[oppositeSide(result.side)] = `${-half}px`;
+		if (result.arrow.x != null) arrow.style.left = `${result.arrow.x - half}px`;
+		if (result.arrow.y != null) arrow.style.top = `${result.arrow.y - half}px`;
 	}
 
 	/** Recompute highlight + tooltip position (on resize/scroll/mutation). */
 	private reposition() {
 		if (!this.active) return;
 		const step = this.steps[this.index];
-		if (!step || !step._el) return;
-		this.positionHighlight(step._el, step.padding ?? 8);
+		if (!step) return;
+		if (!step._el) {
+			if (isCenteredStep(step))
+				this.positionTooltip(null, this.overlayParts.tooltip);
+			return;
+		}
+		this.positionHighlight(step);
+		if (this.opts.mode === "beacon" && !this.beaconOpen) return;
 		this.positionTooltip(step._el, this.overlayParts.tooltip);
 		if (typeof window === "undefined") return; // Defensive check for window
 	}
 
-	/** Keyboard handler for global navigation / dismissal keys. */
+	/** Keyboard handler for global navigation / dismissal keys (see `keymap`). */
 	private onKey(e: KeyboardEvent) {
 		if (!this.active) return;
-		switch (e.key) {
-			case "Escape":
-				this.skip("esc");
+		const step = this.steps[this.index];
+		if (step?.keyboard === false) return;
+		// A collapsed beacon must not hijack the page's keys
+		if (this.opts.mode === "beacon" && !this.beaconOpen) return;
+		const path = e.composedPath();
+		// Keys typed into an interactive highlighted element belong to it, not the tour
+		if (step && this.interactionOf(step) !== "block") {
+			if (step._els?.some((el) => path.includes(el))) return;
+		}
+		if (!this.opts.keyboardInEditable && isEditable(path[0] ?? e.target))
+			return;
+		const keymap = { ...defaultKeymap(this.directionOf(step)) };
+		for (const [action, keys] of Object.entries(this.opts.keymap))
+			if (keys) keymap[action as WalkthroughKeyAction] = keys;
+		const action = (Object.keys(keymap) as WalkthroughKeyAction[]).find((a) =>
+			keymap[a].some((binding) => matchesKey(e, binding)),
+		);
+		switch (action) {
+			case "skip":
+				if (this.opts.mode === "beacon" && step?._el) this.closeBeacon(true);
+				else this.skip("esc");
 				break;
-			case "ArrowRight":
-			case "Enter":
-				this.next();
+			case "next":
+			case "finish":
+				// Steps with choices require an explicit pick; gated steps wait for their action
+				if (step?.choices?.length || !this.gateOpen) break;
+				if (action === "finish") this.finish();
+				else this.next();
 				break;
-			case "ArrowLeft":
-				this.prev();
+			case "prev":
+				if (this.canGoBack()) this.prev();
 				break;
 		}
 	}
@@ -891,7 +2586,7 @@ export class Walkthrough {
 	private cleanup() {
 		if (!this.active) return;
 		this.active = false;
-		if (!this.opts.allowBodyScroll) document.body.style.overflow = "";
+		if (this.locksScroll()) document.body.style.overflow = "";
 		if (hasDOM) {
 			window.removeEventListener("resize", this.resizeHandler);
 			window.removeEventListener("scroll", this.scrollHandler, true);
@@ -899,6 +2594,14 @@ export class Walkthrough {
 		document.removeEventListener("keydown", this.keyHandler);
 		this.teardownFocusTrap();
 		this.mutationObserver?.disconnect();
+		this.pendingNavigation?.abort();
+		this.pendingNavigation = undefined;
+		this.navigation?.abort();
+		this.navigation = undefined;
+		this.stepText = {};
+		this.localeDisposer?.();
+		this.localeDisposer = undefined;
+		this.watchFrames([]);
 		if (this.root?.parentNode) this.root.parentNode.removeChild(this.root);
 		recordDebug("walkthrough", "cleanup", this.opts.tourId || "<anon>", {
 			index: this.index,
@@ -906,72 +2609,53 @@ export class Walkthrough {
 	}
 
 	// Persistence helpers
-	/** Build the localStorage key (if persistence enabled). */
-	private progressKey() {
-		return this.opts.tourId ? `__walkthrough:${this.opts.tourId}` : undefined;
+	/** Effective storage adapter (per instance override else global default). */
+	private storage(): WalkthroughStorage {
+		return this.opts.storage ?? getDefaultStorage();
 	}
 	/** Persist current index (not yet completed). */
 	private saveProgress() {
 		if (!this.opts.persistProgress || !this.opts.tourId) return;
-		try {
-			const key = this.progressKey();
-			if (key) {
-				localStorage.setItem(
-					key,
-					JSON.stringify({
-						index: this.index,
-						completed: false,
-						ts: Date.now(),
-					}),
-				);
-			}
-		} catch {}
+		writeProgress(
+			this.opts.tourId,
+			{
+				index: this.index,
+				completed: false,
+				ts: Date.now(),
+				history: [...this.history],
+			},
+			this.storage(),
+		);
 	}
-	/** Load prior progress index (returns null if completed or unavailable). */
-	private loadProgress(): number | null {
+	/** Load prior progress (resolves null if completed or unavailable). */
+	private async loadProgress(): Promise<StoredProgress | null> {
 		if (!this.opts.persistProgress || !this.opts.tourId) return null;
-		try {
-			const key = this.progressKey();
-			if (!key) return null;
-			const raw = localStorage.getItem(key);
-			if (!raw) return null;
-			const data = JSON.parse(raw);
-			if (data.completed) return null; // start fresh if already completed
-			if (typeof data.index === "number") return data.index;
-		} catch {}
-		return null;
+		const data = await readProgress(this.opts.tourId, this.storage());
+		if (!data || data.completed) return null; // start fresh if already completed
+		return data;
 	}
 	/** Persist completion + final index. */
 	private markCompleted() {
 		if (!this.opts.persistProgress || !this.opts.tourId) return;
-		try {
-			const key = this.progressKey();
-			if (key) {
-				localStorage.setItem(
-					key,
-					JSON.stringify({
-						index: this.index,
-						completed: true,
-						ts: Date.now(),
-					}),
-				);
-			}
-		} catch {}
+		writeProgress(
+			this.opts.tourId,
+			{ index: this.index, completed: true, ts: Date.now() },
+			this.storage(),
+		);
 	}
 	/** Remove any stored progress / completion state for this tour instance. */
-	clearProgress() {
+	clearProgress(): Promise<void> {
 		if (this.opts.persistProgress && this.opts.tourId) {
-			try {
-				const key = this.progressKey();
-				if (key) localStorage.removeItem(key);
-			} catch {}
+			return removeProgress(this.opts.tourId, this.storage());
 		}
+		return Promise.resolve();
 	}
 }
 
 /**
  * Convenience helper to create + start a walkthrough immediately.
- * Returns the instance so callers can call `skip()` or `clearProgress()` later.
+ * Returns the instance so callers can call `skip()` or `clearProgress()` later,
+ * or `await inst.done` for the {@link WalkthroughResult}.
  */
 export function startWalkthrough(
 	steps: WalkthroughStep[],
@@ -993,13 +2677,15 @@ export class WalkthroughChain {
 	private tours: ChainedTour[];
 	private currentIndex = -1;
 	private currentInstance: Walkthrough | null = null;
+	private stopped = false;
 	constructor(tours: ChainedTour[]) {
 		this.tours = tours;
 	}
 	start() {
-		this.advanceToNext();
+		this.stopped = false;
+		void this.advanceToNext();
 	}
-	private advanceToNext(): void {
+	private async advanceToNext(): Promise<void> {
 		this.currentIndex++;
 		if (this.currentInstance) {
 			this.currentInstance.destroy();
@@ -1009,33 +2695,25 @@ export class WalkthroughChain {
 		const tour = this.tours[this.currentIndex];
 		// Skip if already completed (persistence)
 		if (tour.options?.persistProgress && tour.options.tourId) {
-			try {
-				const raw = localStorage.getItem(
-					`__walkthrough:${tour.options.tourId}`,
-				);
-				if (raw) {
-					const data = JSON.parse(raw);
-					if (data?.completed) {
-						this.advanceToNext();
-						return;
-					}
-				}
-			} catch {}
+			const data = await readProgress(
+				tour.options.tourId,
+				tour.options.storage ?? getDefaultStorage(),
+			);
+			if (this.stopped) return;
+			if (data?.completed) {
+				return this.advanceToNext();
+			}
 		}
-		const inst = new Walkthrough(tour.steps, {
-			...tour.options,
-			onFinish: () => {
-				tour.options?.onFinish?.();
-				this.advanceToNext();
-			},
-			onSkip: (r) => {
-				tour.options?.onSkip?.(r); /* skipping stops chain */
-			},
+		const inst = new Walkthrough(tour.steps, tour.options);
+		// Skipping stops the chain; only a normal finish advances
+		inst.on("finish", () => {
+			void this.advanceToNext();
 		});
 		this.currentInstance = inst;
 		inst.start();
 	}
 	stop() {
+		this.stopped = true;
 		this.currentInstance?.skip("chain-stop");
 	}
 }